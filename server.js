@@ -4,10 +4,11 @@ import fs from 'fs';
 import { fileURLToPath } from 'url';
 import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, CopyObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import crypto from 'crypto';
 import { Readable } from 'stream';
+import { createClient } from '@supabase/supabase-js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -25,13 +26,194 @@ app.get('/health', (_req, res) => {
 // Express middleware to parse JSON body
 app.use(express.json({ limit: '10mb' }));
 
+// ============================================================================
+// TTS Service Registry
+// ============================================================================
+// services.json describes every backend (transport, endpoint, auth, voices, capabilities).
+// ${VAR} placeholders (or ${VAR:-default}) are resolved from the environment at startup;
+// entries whose required fields stay empty are disabled. Adding a backend is a JSON edit plus env vars.
+const SERVICES_FILE = process.env.TTS_SERVICES_FILE || path.join(__dirname, 'services.json');
+
+const resolvePlaceholders = (value) => {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z0-9_]+)(?::-([^}]*))?\}/g, (_match, name, fallback) => process.env[name] || fallback || '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(resolvePlaceholders);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolvePlaceholders(item)]));
+  }
+  return value;
+};
+
+const getPath = (value, dottedPath) => dottedPath.split('.').reduce((acc, key) => acc?.[key], value);
+
+const loadServiceRegistry = () => {
+  let definitions = [];
+  try {
+    definitions = JSON.parse(fs.readFileSync(SERVICES_FILE, 'utf8')).services || [];
+  } catch (error) {
+    console.error(`[Services] Failed to read ${SERVICES_FILE}:`, error.message);
+  }
+
+  const resolved = definitions.map(resolvePlaceholders);
+  const isEnabled = (def) => (def.requires || ['endpoint']).every(p => !!getPath(def, p));
+  const primary = resolved.filter(def => !def.fallback && isEnabled(def));
+  const enabled = primary.length > 0 ? primary : resolved.filter(def => def.fallback && isEnabled(def));
+
+  console.log(`[Services] Enabled: ${enabled.map(def => def.id).join(', ') || 'none'}`);
+  return enabled;
+};
+
+const TTS_SERVICES = loadServiceRegistry();
+
+// 'server' (default): provider keys stay on the server and the browser calls the /api/tts/* proxies.
+// 'direct': legacy behaviour, every VITE_* variable and service key is injected into the page.
+const TTS_PROXY_MODE = process.env.TTS_PROXY_MODE === 'direct' ? 'direct' : 'server';
+
+const getServiceDefinition = (id) => TTS_SERVICES.find(def => def.id === id);
+
+// Upstream auth headers according to the service's auth style
+const getServiceAuthHeaders = (def) => {
+  const key = def?.auth?.key;
+  if (!key || def.auth.style === 'none') return {};
+  if (def.auth.style === 'header') {
+    return { [def.auth.header || 'X-API-Key']: key };
+  }
+  return { 'Authorization': `Bearer ${key}` };
+};
+
+// ============================================================================
+// Authentication (Supabase JWT)
+// ============================================================================
+// Every /api route requires a Supabase access token when Supabase is configured.
+// Tokens are verified locally with SUPABASE_JWT_SECRET (HS256) or, without it,
+// through GoTrue using the service key. Roles come from public.user_roles.
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET;
+const AUTH_ENABLED = !!SUPABASE_URL && (!!SUPABASE_JWT_SECRET || !!SUPABASE_SERVICE_KEY);
+const USER_ROLES = ['user', 'voice_creator_pending', 'voice_creator', 'admin'];
+
+const supabaseAdmin = SUPABASE_URL && SUPABASE_SERVICE_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, { auth: { persistSession: false, autoRefreshToken: false } })
+  : null;
+
+if (!AUTH_ENABLED) {
+  console.warn('[Auth] Supabase not configured - /api routes are open');
+}
+
+// Verify an HS256 Supabase access token and return its claims, or null
+const verifySupabaseJwt = (token) => {
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !signature) return null;
+
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+  if (header.alg !== 'HS256') return null;
+
+  const expected = crypto
+    .createHmac('sha256', SUPABASE_JWT_SECRET)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) return null;
+  // anon and service_role keys are valid JWTs too, but they are not user sessions
+  if (claims.role !== 'authenticated' || !claims.sub) return null;
+  return claims;
+};
+
+const getUserRole = async (userId, fallbackRole) => {
+  if (!supabaseAdmin) {
+    return USER_ROLES.includes(fallbackRole) ? fallbackRole : 'user';
+  }
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  // No row means a regular user
+  return data?.role || 'user';
+};
+
+// Resolve a token to { id, email, role }, or null when it is invalid/expired
+const authenticateToken = async (token) => {
+  if (SUPABASE_JWT_SECRET) {
+    const claims = verifySupabaseJwt(token);
+    if (!claims) return null;
+    return {
+      id: claims.sub,
+      email: claims.email || null,
+      role: await getUserRole(claims.sub, claims.app_metadata?.role)
+    };
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return null;
+  return {
+    id: data.user.id,
+    email: data.user.email || null,
+    role: await getUserRole(data.user.id, data.user.app_metadata?.role)
+  };
+};
+
+const getBearerToken = (req) => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+const requireAuth = async (req, res, next) => {
+  if (!AUTH_ENABLED) return next();
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const user = await authenticateToken(token);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('[Auth] Token verification failed:', error);
+    res.status(401).json({ error: 'Invalid or expired session' });
+  }
+};
+
+// Use after requireAuth; a no-op when auth is disabled
+const requireRole = (...roles) => (req, res, next) => {
+  if (!AUTH_ENABLED) return next();
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
+  next();
+};
+
+app.use('/api', requireAuth);
+
+// Current user and role
+app.get('/api/me', (req, res) => {
+  if (!AUTH_ENABLED) {
+    return res.json({ authEnabled: false, id: null, email: null, role: null });
+  }
+  res.json({ authEnabled: true, ...req.user });
+});
+
 // Alibaba Cloud Qwen-TTS Proxy Routes
-const ALIBABA_VOICE_API = process.env.VITE_ALIBABA_VOICE_API;
-const ALIBABA_API_KEY = process.env.VITE_ALIBABA_API_KEY;
-const ALIBABA_TTS_MODEL = process.env.VITE_ALIBABA_TTS_MODEL;
+const ALIBABA_SERVICE = TTS_SERVICES.find(def => def.transport === 'alibaba-realtime-ws');
+const ALIBABA_VOICE_API = ALIBABA_SERVICE?.voiceApi;
+const ALIBABA_API_KEY = ALIBABA_SERVICE?.auth?.key;
+const ALIBABA_TTS_MODEL = ALIBABA_SERVICE?.model;
 
 // Proxy: Create voice
-app.post('/api/alibaba/voice/create', async (req, res) => {
+app.post('/api/alibaba/voice/create', requireRole('voice_creator', 'admin'), async (req, res) => {
   if (!ALIBABA_VOICE_API || !ALIBABA_API_KEY) {
     return res.status(500).json({ error: 'Alibaba configuration missing' });
   }
@@ -59,7 +241,7 @@ app.post('/api/alibaba/voice/create', async (req, res) => {
     const response = await fetch(ALIBABA_VOICE_API, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${ALIBABA_API_KEY}`,
+        ...getServiceAuthHeaders(ALIBABA_SERVICE),
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(payload),
@@ -104,7 +286,7 @@ app.post('/api/alibaba/voice/list', async (req, res) => {
     const response = await fetch(ALIBABA_VOICE_API, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${ALIBABA_API_KEY}`,
+        ...getServiceAuthHeaders(ALIBABA_SERVICE),
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(payload)
@@ -124,7 +306,7 @@ app.post('/api/alibaba/voice/list', async (req, res) => {
 });
 
 // Proxy: Delete voice
-app.post('/api/alibaba/voice/delete', async (req, res) => {
+app.post('/api/alibaba/voice/delete', requireRole('voice_creator', 'admin'), async (req, res) => {
   if (!ALIBABA_VOICE_API || !ALIBABA_API_KEY) {
     return res.status(500).json({ error: 'Alibaba configuration missing' });
   }
@@ -147,7 +329,7 @@ app.post('/api/alibaba/voice/delete', async (req, res) => {
     const response = await fetch(ALIBABA_VOICE_API, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${ALIBABA_API_KEY}`,
+        ...getServiceAuthHeaders(ALIBABA_SERVICE),
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(payload)
@@ -166,68 +348,394 @@ app.post('/api/alibaba/voice/delete', async (req, res) => {
   }
 });
 
+// ============================================================================
+// Voice Catalog
+// ============================================================================
+// Voices for catalog-backed services come from public.voices. Approved voices are
+// shared by everyone and cached in memory; pending voices are added per request
+// for their owner (and for admins). Without Supabase, VITE_TTS_VOICES is served.
+const VOICE_CACHE_TTL_MS = parseInt(process.env.VOICE_CACHE_TTL_MS || '60000', 10);
+const VOICE_COLUMNS = 'id, display_name, status, service_id, owner_user_id, owner_email, created_at';
+
+let approvedVoiceCache = { voices: null, expiresAt: 0 };
+
+// Drop cached voices after approvals, uploads or deletions
+const invalidateVoiceCache = () => {
+  approvedVoiceCache = { voices: null, expiresAt: 0 };
+};
+
+const getApprovedVoices = async () => {
+  if (approvedVoiceCache.voices && approvedVoiceCache.expiresAt > Date.now()) {
+    return approvedVoiceCache.voices;
+  }
+  const { data, error } = await supabaseAdmin
+    .from('voices_with_users')
+    .select(VOICE_COLUMNS)
+    .eq('status', 'approved')
+    .order('display_name');
+  if (error) throw error;
+
+  approvedVoiceCache = { voices: data, expiresAt: Date.now() + VOICE_CACHE_TTL_MS };
+  return data;
+};
+
+const getPendingVoices = async (user) => {
+  if (!user) return [];
+  let query = supabaseAdmin
+    .from('voices_with_users')
+    .select(VOICE_COLUMNS)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+  if (user.role !== 'admin') {
+    query = query.eq('owner_user_id', user.id);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+// Admins and owners see the full email; everyone else only its local part
+const toCatalogVoice = (row, user) => {
+  const isOwner = user && row.owner_user_id === user.id;
+  const canSeeEmail = isOwner || user?.role === 'admin';
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    serviceId: row.service_id,
+    status: row.status,
+    owner: row.owner_email ? (canSeeEmail ? row.owner_email : row.owner_email.split('@')[0]) : null,
+    isOwner: !!isOwner,
+    createdAt: row.created_at
+  };
+};
+
+const getStaticVoices = (serviceId) => {
+  try {
+    const voices = JSON.parse(process.env.VITE_TTS_VOICES || '[]');
+    return voices.map(v => ({
+      id: v.id,
+      displayName: v.label || v.id,
+      serviceId,
+      status: 'approved',
+      owner: null,
+      isOwner: false,
+      createdAt: null
+    }));
+  } catch (error) {
+    console.warn('[Voices] Failed to parse VITE_TTS_VOICES:', error.message);
+    return [];
+  }
+};
+
+app.get('/api/voices', async (req, res) => {
+  const serviceId = typeof req.query.service === 'string' ? req.query.service : undefined;
+
+  if (!supabaseAdmin) {
+    return res.json({ source: 'static', voices: getStaticVoices(serviceId) });
+  }
+
+  // Admins can force a reload, e.g. after editing rows directly in the database
+  if (req.query.refresh && req.user?.role === 'admin') {
+    invalidateVoiceCache();
+  }
+
+  try {
+    const [approved, pending] = await Promise.all([getApprovedVoices(), getPendingVoices(req.user)]);
+    const voices = [...approved, ...pending]
+      .filter(row => !serviceId || row.service_id === serviceId)
+      .map(row => toCatalogVoice(row, req.user));
+
+    res.json({ source: 'catalog', voices });
+  } catch (error) {
+    console.error('[Voices] Failed to load catalog:', error);
+    res.status(500).json({ error: 'Failed to load voices' });
+  }
+});
+
+// ============================================================================
+// Voice Creator Requests
+// ============================================================================
+// Users ask for creator access; admins approve or deny. Status and role changes
+// happen in one transaction through the RPC functions in 003_creator_requests.sql.
+const requireDatabase = (_req, res, next) => {
+  if (!supabaseAdmin) {
+    return res.status(503).json({ error: 'This feature requires Supabase (SUPABASE_SERVICE_KEY)' });
+  }
+  next();
+};
+
+const toVoiceRequest = (row) => ({
+  id: row.id,
+  userId: row.user_id,
+  email: row.requester_email || null,
+  status: row.status,
+  notes: row.notes,
+  reviewNotes: row.review_notes,
+  reviewedBy: row.reviewer_email || null,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at
+});
+
+// Latest request of the signed-in user, or null
+app.get('/api/voice-requests/me', requireDatabase, async (req, res) => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('voice_requests_with_users')
+      .select('*')
+      .eq('user_id', req.user.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+
+    res.json({ request: data ? toVoiceRequest(data) : null, role: req.user.role });
+  } catch (error) {
+    console.error('[Voice Requests] Failed to load own request:', error);
+    res.status(500).json({ error: 'Failed to load request status' });
+  }
+});
+
+app.post('/api/voice-requests', requireDatabase, async (req, res) => {
+  const notes = typeof req.body.notes === 'string' ? req.body.notes.trim().slice(0, 1000) : '';
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('request_creator_access', {
+      requester_id: req.user.id,
+      request_notes: notes || null
+    });
+
+    if (error) {
+      // 23505: the partial unique index allows one pending request per user
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'You already have a pending request' });
+      }
+      if (error.message?.includes('already has creator access')) {
+        return res.status(409).json({ error: 'You already have creator access' });
+      }
+      throw error;
+    }
+
+    console.log(`[Voice Requests] New request from ${req.user.email || req.user.id}`);
+    res.status(201).json({ request: toVoiceRequest({ ...data, requester_email: req.user.email }) });
+  } catch (error) {
+    console.error('[Voice Requests] Failed to create request:', error);
+    res.status(500).json({ error: 'Failed to submit request' });
+  }
+});
+
+// Admin: list requests, pending by default
+app.get('/api/voice-requests', requireDatabase, requireRole('admin'), async (req, res) => {
+  const status = ['pending', 'approved', 'denied', 'all'].includes(req.query.status) ? req.query.status : 'pending';
+
+  try {
+    let query = supabaseAdmin
+      .from('voice_requests_with_users')
+      .select('*')
+      .order('created_at', { ascending: status === 'pending' })
+      .limit(200);
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+
+    res.json({ requests: data.map(toVoiceRequest) });
+  } catch (error) {
+    console.error('[Voice Requests] Failed to list requests:', error);
+    res.status(500).json({ error: 'Failed to load requests' });
+  }
+});
+
+const reviewVoiceRequest = (decision) => async (req, res) => {
+  const notes = typeof req.body.notes === 'string' ? req.body.notes.trim().slice(0, 1000) : '';
+  const rpcName = decision === 'approve' ? 'approve_creator_request' : 'deny_creator_request';
+
+  try {
+    const { error } = await supabaseAdmin.rpc(rpcName, {
+      request_id: req.params.id,
+      admin_id: req.user.id,
+      review_notes: notes || null
+    });
+
+    if (error) {
+      if (error.message?.includes('not found or already reviewed')) {
+        return res.status(409).json({ error: 'Request not found or already reviewed' });
+      }
+      throw error;
+    }
+
+    console.log(`[Voice Requests] ${req.user.email || req.user.id} ${decision === 'approve' ? 'approved' : 'denied'} request ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`[Voice Requests] Failed to ${decision} request:`, error);
+    res.status(500).json({ error: `Failed to ${decision} request` });
+  }
+};
+
+app.post('/api/voice-requests/:id/approve', requireDatabase, requireRole('admin'), reviewVoiceRequest('approve'));
+app.post('/api/voice-requests/:id/deny', requireDatabase, requireRole('admin'), reviewVoiceRequest('deny'));
+
+// ============================================================================
+// Batch TTS Proxy
+// ============================================================================
+// OpenAI-compatible /v1/audio/speech passthrough; the provider key is attached here
+app.post('/api/tts/speech', async (req, res) => {
+  try {
+    const { service, input, text, voice, model, response_format } = req.body;
+    const resolvedText = input || text;
+
+    const definition = getServiceDefinition(service);
+
+    if (!definition) {
+      console.error(`[Speech Proxy] No endpoint found for service: ${service}`);
+      return res.status(400).json({ error: `Service configuration missing for: ${service}` });
+    }
+
+    if (definition.transport === 'alibaba-realtime-ws') {
+      return res.status(400).json({ error: `Service ${service} uses the realtime WebSocket proxy` });
+    }
+
+    if (!resolvedText || !voice) {
+      return res.status(400).json({ error: 'Missing required fields: input, voice' });
+    }
+
+    const upstreamPayload = {
+      model: model || definition.model || 'tts-1',
+      input: resolvedText,
+      voice,
+      ...(response_format ? { response_format } : {})
+    };
+
+    console.log(`[Speech Proxy] Forwarding to ${definition.endpoint} (service=${service})`);
+
+    const response = await fetch(definition.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getServiceAuthHeaders(definition) },
+      body: JSON.stringify(upstreamPayload)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Speech Proxy] Backend error (${response.status}) from ${definition.endpoint}:`, errorText);
+      return res.status(response.status).send(errorText);
+    }
+
+    res.setHeader('Cache-Control', 'no-cache');
+    const contentType = response.headers.get('content-type');
+    if (contentType) {
+      res.setHeader('Content-Type', contentType);
+    }
+
+    if (response.body) {
+      Readable.fromWeb(response.body).pipe(res);
+    } else {
+      res.end();
+    }
+
+  } catch (error) {
+    console.error('[Speech Proxy] Fatal Error:', error);
+    res.status(500).json({
+      error: 'Speech proxy failed to reach backend',
+      details: error.message
+    });
+  }
+});
+
 // ============================================================================
 // Streaming TTS Proxy
 // ============================================================================
+// Raw PCM carries no header, so the proxy announces the format to the browser:
+// whatever the backend declares (X-Sample-Rate / X-Channels / X-Sample-Format or
+// X-Bit-Depth, or Content-Type rate/channels parameters), else the service's streamFormat.
+const DEFAULT_STREAM_FORMAT = { sampleRate: 24000, channels: 1, encoding: 's16le' };
+const PCM_ENCODINGS = ['s16le', 's24le', 'f32le'];
+const BIT_DEPTH_ENCODINGS = { 16: 's16le', 24: 's24le', 32: 'f32le' };
+
+const resolveStreamFormat = (definition, upstreamHeaders) => {
+  const params = Object.fromEntries(
+    (upstreamHeaders.get('content-type') || '').split(';').slice(1)
+      .map(param => param.split('=').map(part => part.trim().toLowerCase()))
+      .filter(([key, value]) => key && value)
+  );
+  const positive = (value) => {
+    const parsed = parseInt(value, 10);
+    return parsed > 0 ? parsed : undefined;
+  };
+  const sampleFormat = upstreamHeaders.get('x-sample-format')?.toLowerCase();
+  const configured = { ...DEFAULT_STREAM_FORMAT, ...definition.streamFormat };
+
+  return {
+    sampleRate: positive(upstreamHeaders.get('x-sample-rate')) ?? positive(params.rate) ?? configured.sampleRate,
+    channels: positive(upstreamHeaders.get('x-channels')) ?? positive(params.channels) ?? configured.channels,
+    encoding: (PCM_ENCODINGS.includes(sampleFormat) ? sampleFormat : undefined)
+      ?? BIT_DEPTH_ENCODINGS[positive(upstreamHeaders.get('x-bit-depth'))]
+      ?? configured.encoding
+  };
+};
+
 app.post('/api/tts/stream', async (req, res) => {
+  // Stop/pause-and-discard or a closed tab ends the response; stop the backend from
+  // generating (and billing) the rest of the audio
+  const upstream = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      console.log('[Streaming Proxy] Client disconnected, aborting upstream request');
+      upstream.abort();
+    }
+  });
+
   try {
     const { service, text, voice, stream, input, model } = req.body;
     const resolvedText = input || text;
     
-    // Determine the target endpoint based on service ID
-    let targetEndpoint = '';
-    let apiKey = '';
-
-    // INTERNAL CONTAINER ROUTING: Use container names instead of localhost/public domains
-    if (service === 'echotts' || service === 'default') {
-      // Use the configured endpoint from environment (defaults to public URL if not overridden)
-      // This allows flexibility: can be set to internal container (http://echotts-openai:8000...)
-      // or public URL (https://echotts.gemneye.xyz...) in .env
-      targetEndpoint = process.env.VITE_ECHOTTS_ENDPOINT || 'http://echotts-openai:8000/v1/audio/speech';
-      apiKey = process.env.VITE_ECHOTTS_API_KEY;
-    } else if (service === 'vibevoice') {
-      targetEndpoint = process.env.VITE_VIBEVOICE_ENDPOINT;
-      apiKey = process.env.VITE_VIBEVOICE_API_KEY;
-    } else if (service === 'chatterbox') {
-      targetEndpoint = process.env.VITE_CHATTERBOX_ENDPOINT;
-      apiKey = process.env.VITE_CHATTERBOX_API_KEY;
-    }
-
-    if (!targetEndpoint) {
+    const definition = getServiceDefinition(service);
+
+    if (!definition) {
       console.error(`[Streaming Proxy] No endpoint found for service: ${service}`);
       return res.status(400).json({ error: `Service configuration missing for: ${service}` });
     }
 
-    const headers = { 'Content-Type': 'application/json' };
-    if (apiKey) {
-      headers['Authorization'] = `Bearer ${apiKey}`;
+    if (definition.transport === 'alibaba-realtime-ws') {
+      return res.status(400).json({ error: `Service ${service} uses the realtime WebSocket proxy` });
     }
 
+    const targetEndpoint = definition.endpoint;
+    const headers = { 'Content-Type': 'application/json', ...getServiceAuthHeaders(definition) };
+
     const shouldStream = stream !== undefined ? stream : true;
+
+    if (shouldStream && !definition.capabilities?.streaming) {
+      return res.status(400).json({ error: `Service ${service} does not support streaming` });
+    }
+
+    // pcm-stream backends expose a dedicated raw PCM endpoint next to /v1/audio/speech;
+    // plain OpenAI-compatible backends stream from the speech endpoint itself
+    const rawPcmStream = shouldStream && definition.transport === 'pcm-stream';
     const baseUrl = targetEndpoint.replace(/\/v1\/audio\/speech\/?$/, '');
-    const streamEndpoint = `${baseUrl}/api/tts/stream`;
+    const streamEndpoint = definition.streamEndpoint || `${baseUrl}/api/tts/stream`;
 
-    const upstreamPayload = shouldStream ? {
+    const upstreamPayload = rawPcmStream ? {
       service,
       text: resolvedText,
       voice,
       stream: true,
       response_format: 'pcm'
     } : {
-      model: model || 'tts-1',
+      model: model || definition.model || 'tts-1',
       input: resolvedText,
       voice,
-      response_format: 'mp3',
-      stream: false
+      response_format: shouldStream ? 'pcm' : 'mp3',
+      stream: shouldStream
     };
 
-    const upstreamUrl = shouldStream ? streamEndpoint : targetEndpoint;
+    const upstreamUrl = rawPcmStream ? streamEndpoint : targetEndpoint;
     console.log(`[Streaming Proxy] Forwarding to ${upstreamUrl} (stream=${shouldStream})`);
 
     const response = await fetch(upstreamUrl, {
       method: 'POST',
       headers,
-      body: JSON.stringify(upstreamPayload)
+      body: JSON.stringify(upstreamPayload),
+      signal: upstream.signal
     });
 
     if (!response.ok) {
@@ -246,7 +754,11 @@ app.post('/api/tts/stream', async (req, res) => {
     // Set headers
     res.setHeader('Cache-Control', 'no-cache');
     if (shouldStream) {
-      res.setHeader('Content-Type', 'audio/pcm');
+      const format = resolveStreamFormat(definition, response.headers);
+      res.setHeader('Content-Type', `audio/pcm;rate=${format.sampleRate};channels=${format.channels}`);
+      res.setHeader('X-Sample-Rate', String(format.sampleRate));
+      res.setHeader('X-Channels', String(format.channels));
+      res.setHeader('X-Sample-Format', format.encoding);
       res.setHeader('Connection', 'keep-alive');
     }
 
@@ -254,12 +766,19 @@ app.post('/api/tts/stream', async (req, res) => {
     if (response.body) {
        // @ts-ignore
        const readable = Readable.fromWeb(response.body);
+       readable.on('error', (error) => {
+         if (upstream.signal.aborted) return;
+         console.error('[Streaming Proxy] Upstream stream failed:', error);
+         res.destroy(error);
+       });
+       upstream.signal.addEventListener('abort', () => readable.destroy(), { once: true });
        readable.pipe(res);
     } else {
        res.end();
     }
 
   } catch (error) {
+    if (upstream.signal.aborted) return;
     console.error('[Streaming Proxy] Fatal Error:', error);
     // Return detailed error info to the client for debugging
     res.status(500).json({ 
@@ -284,6 +803,22 @@ const S3_STT_ENDPOINT = process.env.S3_STT_ENDPOINT;
 const RUNPOD_STT_ENDPOINT = process.env.RUNPOD_STT_ENDPOINT;
 const RUNPOD_STT_API_KEY = process.env.RUNPOD_STT_API_KEY;
 const STT_MAX_FILE_SIZE = parseInt(process.env.STT_MAX_FILE_SIZE || '104857600', 10); // 100MB default
+// MinIO and most self-hosted S3 stand-ins only support path-style URLs
+const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE === 'true';
+
+const isS3Configured = () =>
+  !!(S3_STT_BUCKET && S3_STT_REGION && S3_STT_ACCESS_KEY && S3_STT_SECRET_KEY && S3_STT_ENDPOINT);
+
+// Shared by STT uploads and reference voice uploads
+const createS3Client = () => new S3Client({
+  region: S3_STT_REGION,
+  endpoint: S3_STT_ENDPOINT,
+  forcePathStyle: S3_FORCE_PATH_STYLE,
+  credentials: {
+    accessKeyId: S3_STT_ACCESS_KEY,
+    secretAccessKey: S3_STT_SECRET_KEY,
+  },
+});
 
 // Generate presigned URL for S3 upload
 app.post('/api/stt/presign', async (req, res) => {
@@ -310,7 +845,7 @@ app.post('/api/stt/presign', async (req, res) => {
     }
 
     // Check S3 configuration
-    if (!S3_STT_BUCKET || !S3_STT_REGION || !S3_STT_ACCESS_KEY || !S3_STT_SECRET_KEY || !S3_STT_ENDPOINT) {
+    if (!isS3Configured()) {
       console.error('[STT Presign] Missing S3 configuration');
       return res.status(500).json({ error: 'STT service not configured' });
     }
@@ -320,14 +855,7 @@ app.post('/api/stt/presign', async (req, res) => {
     const key = uuid;
 
     // Create S3 client
-    const s3Client = new S3Client({
-      region: S3_STT_REGION,
-      endpoint: S3_STT_ENDPOINT,
-      credentials: {
-        accessKeyId: S3_STT_ACCESS_KEY,
-        secretAccessKey: S3_STT_SECRET_KEY,
-      },
-    });
+    const s3Client = createS3Client();
 
     // Create presigned PUT URL
     const command = new PutObjectCommand({
@@ -352,8 +880,204 @@ app.post('/api/stt/presign', async (req, res) => {
   }
 });
 
-// Transcribe audio via RunPod Serverless
-app.post('/api/stt/transcribe', async (req, res) => {
+// ============================================================================
+// STT Jobs
+// ============================================================================
+// Transcriptions run as RunPod async jobs: POST <endpoint>/run returns at once and
+// GET <endpoint>/status/:id reports IN_QUEUE, IN_PROGRESS, COMPLETED or FAILED.
+// The server tracks each job in memory and polls RunPod for it, so a 30-minute file
+// never holds a request open; clients poll GET /api/stt/jobs/:id or subscribe to
+// GET /api/stt/jobs/:id/events (SSE) and can pick a job back up after a reload.
+// RUNPOD_STT_MOCK=true swaps RunPod for a local stand-in with the same run/status shape.
+const RUNPOD_STT_MOCK = process.env.RUNPOD_STT_MOCK === 'true';
+const RUNPOD_STT_MOCK_DELAY_MS = parseInt(process.env.RUNPOD_STT_MOCK_DELAY_MS || '8000', 10);
+const STT_JOB_POLL_MS = 3000;
+const STT_JOB_MAX_POLL_ERRORS = 5;
+const STT_JOB_TIMEOUT_MS = 45 * 60 * 1000;
+const STT_JOB_TTL_MS = 60 * 60 * 1000; // Finished jobs stay readable this long
+const STT_EVENTS_HEARTBEAT_MS = 15000;
+
+const STT_TERMINAL_STATUSES = ['completed', 'failed'];
+
+// RUNPOD_STT_ENDPOINT may point at /runsync (the old synchronous call), /run or the endpoint itself
+const runpodSttBase = () => (RUNPOD_STT_ENDPOINT || '').replace(/\/+$/, '').replace(/\/(runsync|run)$/, '');
+
+const runpodSttRequest = async (pathname, init = {}) => {
+  const response = await fetch(`${runpodSttBase()}${pathname}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${RUNPOD_STT_API_KEY}`,
+      ...init.headers,
+    },
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`RunPod ${pathname} failed (${response.status}): ${errorText}`);
+  }
+  return response.json();
+};
+
+const runpodSttClient = {
+  run: (input) => runpodSttRequest('/run', { method: 'POST', body: JSON.stringify({ input }) }),
+  status: (id) => runpodSttRequest(`/status/${encodeURIComponent(id)}`),
+};
+
+const MOCK_TRANSCRIPT = [
+  'This is a mock transcription from the local RunPod stand-in.',
+  'It is queued briefly, then reports progress until the configured delay has passed.',
+  'Set RUNPOD_STT_MOCK to false to send audio to the real endpoint.',
+];
+
+// Words get 0.4s each with a short pause between sentences
+const createMockTranscription = (withTimestamps) => {
+  const text = MOCK_TRANSCRIPT.join(' ');
+  if (!withTimestamps) return { text, success: true };
+
+  const word = [];
+  const segment = [];
+  let time = 0.2;
+  for (const sentence of MOCK_TRANSCRIPT) {
+    const start = time;
+    for (const token of sentence.split(' ')) {
+      word.push({ start: time, end: time + 0.35, text: token });
+      time += 0.4;
+    }
+    segment.push({ start, end: time - 0.05, segment: sentence });
+    time += 0.6;
+  }
+  return { text, timestamps: { word, segment }, success: true };
+};
+
+const createMockRunpodClient = () => {
+  const jobs = new Map();
+  const queueMs = Math.min(1500, RUNPOD_STT_MOCK_DELAY_MS / 4);
+  return {
+    run: async (input) => {
+      const id = `mock-${crypto.randomUUID()}`;
+      jobs.set(id, { input, submittedAt: Date.now() });
+      setTimeout(() => jobs.delete(id), STT_JOB_TTL_MS).unref();
+      return { id, status: 'IN_QUEUE' };
+    },
+    status: async (id) => {
+      const job = jobs.get(id);
+      if (!job) return { id, status: 'FAILED', error: 'Unknown mock job' };
+      const elapsed = Date.now() - job.submittedAt;
+      if (elapsed < queueMs) return { id, status: 'IN_QUEUE' };
+      if (elapsed < RUNPOD_STT_MOCK_DELAY_MS) {
+        return { id, status: 'IN_PROGRESS', output: { progress: (elapsed - queueMs) / (RUNPOD_STT_MOCK_DELAY_MS - queueMs) } };
+      }
+      return { id, status: 'COMPLETED', output: createMockTranscription(!!job.input.timestamp) };
+    },
+  };
+};
+
+const sttRunpod = RUNPOD_STT_MOCK ? createMockRunpodClient() : runpodSttClient;
+if (RUNPOD_STT_MOCK) {
+  console.log(`[STT Jobs] Using mock RunPod client (${RUNPOD_STT_MOCK_DELAY_MS}ms per job)`);
+}
+
+const sttJobs = new Map();         // jobId -> job
+const sttJobListeners = new Map(); // jobId -> Set of callbacks for SSE subscribers
+
+// What clients see; the RunPod id and owner stay on the server
+const publicSttJob = (job) => ({
+  jobId: job.id,
+  uuid: job.uuid,
+  status: job.status,
+  progress: job.progress,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  result: job.result,
+  error: job.error,
+});
+
+const updateSttJob = (job, changes) => {
+  Object.assign(job, changes, { updatedAt: Date.now() });
+  const snapshot = publicSttJob(job);
+  sttJobListeners.get(job.id)?.forEach(listener => listener(snapshot));
+
+  if (STT_TERMINAL_STATUSES.includes(job.status)) {
+    const duration = job.updatedAt - job.createdAt;
+    console.log(`[STT Jobs] ${job.id} ${job.status} after ${duration}ms (UUID: ${job.uuid})`);
+    setTimeout(() => sttJobs.delete(job.id), STT_JOB_TTL_MS).unref();
+  }
+};
+
+const pollSttJob = async (job) => {
+  if (STT_TERMINAL_STATUSES.includes(job.status)) return;
+
+  try {
+    const status = await sttRunpod.status(job.runpodId);
+    job.pollErrors = 0;
+
+    switch (status.status) {
+      case 'IN_QUEUE':
+        if (job.status !== 'queued') updateSttJob(job, { status: 'queued' });
+        break;
+      case 'IN_PROGRESS': {
+        // Handlers that call progress_update report a 0..1 fraction
+        const progress = typeof status.output?.progress === 'number' ? status.output.progress : null;
+        if (job.status !== 'running' || progress !== job.progress) {
+          updateSttJob(job, { status: 'running', progress });
+        }
+        break;
+      }
+      case 'COMPLETED': {
+        // RunPod wraps the actual transcription in an output object
+        const output = status.output || {};
+        if (output.success === false) {
+          console.error(`[STT Jobs] ${job.id} transcription failed:`, output);
+          updateSttJob(job, { status: 'failed', error: 'Transcription failed' });
+        } else {
+          updateSttJob(job, {
+            status: 'completed',
+            progress: 1,
+            result: { text: output.text || '', timestamps: output.timestamps, success: true },
+          });
+        }
+        break;
+      }
+      case 'FAILED':
+      case 'CANCELLED':
+      case 'TIMED_OUT':
+        console.error(`[STT Jobs] ${job.id} ended with ${status.status}:`, status.error || status.output);
+        updateSttJob(job, {
+          status: 'failed',
+          error: status.status === 'TIMED_OUT' ? 'Transcription timed out' : 'Transcription failed',
+        });
+        break;
+      default:
+        console.warn(`[STT Jobs] ${job.id} unexpected RunPod status:`, status.status);
+    }
+  } catch (error) {
+    job.pollErrors = (job.pollErrors || 0) + 1;
+    console.error(`[STT Jobs] ${job.id} status check failed (${job.pollErrors}/${STT_JOB_MAX_POLL_ERRORS}):`, error);
+    if (job.pollErrors >= STT_JOB_MAX_POLL_ERRORS) {
+      updateSttJob(job, { status: 'failed', error: 'Transcription service unavailable' });
+    }
+  }
+
+  if (STT_TERMINAL_STATUSES.includes(job.status)) return;
+  if (Date.now() - job.createdAt > STT_JOB_TIMEOUT_MS) {
+    updateSttJob(job, { status: 'failed', error: 'Transcription timed out' });
+    return;
+  }
+  setTimeout(() => pollSttJob(job), STT_JOB_POLL_MS);
+};
+
+// Jobs are only visible to the user who submitted them
+const findSttJob = (req, res) => {
+  const job = sttJobs.get(req.params.id);
+  if (!job || (AUTH_ENABLED && job.userId !== req.user?.id)) {
+    res.status(404).json({ error: 'Transcription job not found' });
+    return null;
+  }
+  return job;
+};
+
+// Submit a transcription; responds 202 with the job as soon as RunPod has queued it
+app.post('/api/stt/jobs', async (req, res) => {
   try {
     const { uuid, timestamp } = req.body;
 
@@ -362,98 +1086,394 @@ app.post('/api/stt/transcribe', async (req, res) => {
     }
 
     // Check RunPod configuration
-    if (!RUNPOD_STT_ENDPOINT || !RUNPOD_STT_API_KEY) {
-      console.error('[STT Transcribe] Missing RunPod configuration');
+    if (!RUNPOD_STT_MOCK && (!RUNPOD_STT_ENDPOINT || !RUNPOD_STT_API_KEY)) {
+      console.error('[STT Jobs] Missing RunPod configuration');
       return res.status(500).json({ error: 'STT transcription service not configured' });
     }
 
     // Check S3 configuration
-    if (!S3_STT_BUCKET || !S3_STT_REGION || !S3_STT_ACCESS_KEY || !S3_STT_SECRET_KEY || !S3_STT_ENDPOINT) {
-      console.error('[STT Transcribe] Missing S3 configuration');
+    if (!isS3Configured()) {
+      console.error('[STT Jobs] Missing S3 configuration');
       return res.status(500).json({ error: 'STT service not configured' });
     }
 
-    // Generate presigned GET URL for RunPod to download the file
-    const s3Client = new S3Client({
-      region: S3_STT_REGION,
-      endpoint: S3_STT_ENDPOINT,
-      credentials: {
-        accessKeyId: S3_STT_ACCESS_KEY,
-        secretAccessKey: S3_STT_SECRET_KEY,
-      },
-    });
-
+    // Presigned GET URL for RunPod to download the file; it may sit in the queue for a while
+    const s3Client = createS3Client();
     const getCommand = new GetObjectCommand({
       Bucket: S3_STT_BUCKET,
       Key: uuid,
     });
-
-    // Generate presigned GET URL valid for 1 hour
     const s3Url = await getSignedUrl(s3Client, getCommand, { expiresIn: 3600 });
 
-    console.log(`[STT Transcribe] Starting transcription for UUID: ${uuid}`);
-    const startTime = Date.now();
-
-    // Call RunPod Serverless
-    const response = await fetch(RUNPOD_STT_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${RUNPOD_STT_API_KEY}`,
-      },
-      body: JSON.stringify({
-        input: {
-          audio_url: s3Url,
-          timestamp: timestamp || false
-        }
-      })
+    const run = await sttRunpod.run({
+      audio_url: s3Url,
+      timestamp: timestamp || false
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[STT Transcribe] RunPod error (${response.status}):`, errorText);
-      return res.status(response.status).json({ error: 'Transcription failed' });
+    const now = Date.now();
+    const job = {
+      id: crypto.randomUUID(),
+      uuid,
+      userId: req.user?.id || null,
+      runpodId: run.id,
+      status: run.status === 'IN_PROGRESS' ? 'running' : 'queued',
+      progress: null,
+      createdAt: now,
+      updatedAt: now,
+      result: null,
+      error: null,
+      pollErrors: 0,
+    };
+    sttJobs.set(job.id, job);
+    setTimeout(() => pollSttJob(job), STT_JOB_POLL_MS);
+
+    console.log(`[STT Jobs] Submitted ${job.id} (RunPod ${run.id}) for UUID: ${uuid}, timestamps: ${!!timestamp}`);
+    res.status(202).json(publicSttJob(job));
+
+  } catch (error) {
+    console.error('[STT Jobs] Error submitting job:', error);
+    res.status(500).json({ error: 'Transcription service unavailable' });
+  }
+});
+
+app.get('/api/stt/jobs/:id', (req, res) => {
+  const job = findSttJob(req, res);
+  if (job) res.json(publicSttJob(job));
+});
+
+// Server-sent events: the current state right away, then every change until the job finishes
+app.get('/api/stt/jobs/:id/events', (req, res) => {
+  const job = findSttJob(req, res);
+  if (!job) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Keep nginx from buffering the stream
+  });
+
+  const send = (snapshot) => {
+    res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
+    if (STT_TERMINAL_STATUSES.includes(snapshot.status)) res.end();
+  };
+
+  const listeners = sttJobListeners.get(job.id) || new Set();
+  sttJobListeners.set(job.id, listeners);
+  listeners.add(send);
+
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STT_EVENTS_HEARTBEAT_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    listeners.delete(send);
+    if (listeners.size === 0) sttJobListeners.delete(job.id);
+  });
+
+  send(publicSttJob(job));
+});
+
+// ============================================================================
+// Reference Voice Uploads
+// ============================================================================
+// Creators upload a reference clip for catalog services that clone voices (EchoTTS):
+// 1. POST /api/voices/uploads checks name and quota and returns a presigned PUT URL
+// 2. The browser PUTs the file straight to S3 under reference-voices/uploads/
+// 3. POST /api/voices registers the upload as a pending voices row
+// Admins review pending voices; approval copies the clip to processed/, where the
+// TTS worker reads reference voices, and makes it part of the shared catalog.
+const S3_REFERENCE_PREFIX = process.env.S3_REFERENCE_PREFIX || 'reference-voices/';
+const REFERENCE_UPLOAD_PREFIX = `${S3_REFERENCE_PREFIX}uploads/`;
+const REFERENCE_PROCESSED_PREFIX = `${S3_REFERENCE_PREFIX}processed/`;
+const REFERENCE_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB, same limit as the dialog
+const VOICE_QUOTA = 20; // Mirrors check_voice_quota() in the schema
+const VOICE_QUOTA_MESSAGE = `Voice quota reached: you can have at most ${VOICE_QUOTA} voices. Delete or replace one before uploading another.`;
+
+const REFERENCE_CONTENT_TYPES = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg'
+};
+
+// "Dorota Nowak" -> "dorota-nowak"; accents are folded to ASCII
+const toVoiceSlug = (name) => name
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, 40)
+  .replace(/-+$/, '');
+
+// "dorota_nowak" -> "Dorota Nowak"
+const toDisplayName = (name) => name
+  .trim()
+  .split(/[\s_-]+/)
+  .filter(Boolean)
+  .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+  .join(' ');
+
+const getCloningService = (serviceId) => {
+  const def = getServiceDefinition(serviceId);
+  return def?.voices?.source === 'catalog' && def.capabilities?.voiceCloning ? def : null;
+};
+
+const countActiveVoices = async (userId) => {
+  const { count, error } = await supabaseAdmin
+    .from('voices')
+    .select('id', { count: 'exact', head: true })
+    .eq('owner_user_id', userId)
+    .in('status', ['pending', 'approved']);
+  if (error) throw error;
+  return count || 0;
+};
+
+const requireStorage = (_req, res, next) => {
+  if (!isS3Configured()) {
+    return res.status(503).json({ error: 'Voice uploads require S3 storage (S3_STT_* settings)' });
+  }
+  next();
+};
+
+app.post('/api/voices/uploads', requireDatabase, requireStorage, requireRole('voice_creator', 'admin'), async (req, res) => {
+  const { name, contentType, size, service } = req.body;
+
+  if (!getCloningService(service)) {
+    return res.status(400).json({ error: 'This service does not accept reference voices' });
+  }
+  const extension = REFERENCE_CONTENT_TYPES[String(contentType).toLowerCase()];
+  if (!extension) {
+    return res.status(400).json({ error: 'Invalid file format. Please upload WAV, MP3, M4A or OGG.' });
+  }
+  if (typeof size === 'number' && size > REFERENCE_MAX_FILE_SIZE) {
+    return res.status(400).json({ error: 'File size exceeds 10MB limit.' });
+  }
+  const id = typeof name === 'string' ? toVoiceSlug(name) : '';
+  if (!id) {
+    return res.status(400).json({ error: 'Voice name must contain letters or numbers' });
+  }
+
+  try {
+    if (await countActiveVoices(req.user.id) >= VOICE_QUOTA) {
+      return res.status(409).json({ error: VOICE_QUOTA_MESSAGE, code: 'quota_exceeded' });
     }
 
-    const result = await response.json();
-    const duration = Date.now() - startTime;
+    const { data: existing, error } = await supabaseAdmin
+      .from('voices')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    if (existing) {
+      return res.status(409).json({ error: `A voice with the id "${id}" already exists. Choose another name.` });
+    }
+
+    const key = `${REFERENCE_UPLOAD_PREFIX}${req.user.id}/${id}.${extension}`;
+    const command = new PutObjectCommand({
+      Bucket: S3_STT_BUCKET,
+      Key: key,
+      ContentType: contentType,
+    });
+    const uploadUrl = await getSignedUrl(createS3Client(), command, { expiresIn: 900 });
+
+    console.log(`[Reference Voices] Upload URL for ${id} (${req.user.email || req.user.id})`);
+    res.json({ id, displayName: toDisplayName(name), key, uploadUrl });
+  } catch (error) {
+    console.error('[Reference Voices] Failed to prepare upload:', error);
+    res.status(500).json({ error: 'Failed to prepare upload' });
+  }
+});
 
-    // RunPod wraps the actual transcription in an output object
-    const output = result.output || result;
+app.post('/api/voices', requireDatabase, requireStorage, requireRole('voice_creator', 'admin'), async (req, res) => {
+  const { id, displayName, key, service } = req.body;
 
-    // Check for success flag in response
-    if (output.success === false) {
-      console.error(`[STT Transcribe] Transcription failed (${duration}ms):`, output);
-      return res.status(500).json({ error: 'Transcription failed', details: output });
+  if (!getCloningService(service)) {
+    return res.status(400).json({ error: 'This service does not accept reference voices' });
+  }
+  // Only keys handed out by /api/voices/uploads for this user and voice are accepted
+  const keyPrefix = `${REFERENCE_UPLOAD_PREFIX}${req.user.id}/${id}.`;
+  if (typeof id !== 'string' || !id || typeof key !== 'string' || !key.startsWith(keyPrefix)) {
+    return res.status(400).json({ error: 'Invalid upload key' });
+  }
+
+  try {
+    const head = await createS3Client()
+      .send(new HeadObjectCommand({ Bucket: S3_STT_BUCKET, Key: key }))
+      .catch(() => null);
+    if (!head) {
+      return res.status(400).json({ error: 'Upload not found. Please upload the file again.' });
+    }
+    if (head.ContentLength > REFERENCE_MAX_FILE_SIZE) {
+      return res.status(400).json({ error: 'File size exceeds 10MB limit.' });
     }
 
-    console.log(`[STT Transcribe] Success (${duration}ms) for UUID: ${uuid}`);
+    const { data, error } = await supabaseAdmin
+      .from('voices')
+      .insert({
+        id,
+        display_name: toDisplayName(displayName || id),
+        status: 'pending',
+        owner_user_id: req.user.id,
+        service_id: service,
+        source_object_url: key,
+        filename: key.split('/').pop()
+      })
+      .select()
+      .single();
 
-    // Return just the output (contains text, timestamps, success)
-    res.json(output);
+    if (error) {
+      // The quota trigger is the final word if uploads race past the check above
+      if (error.message?.includes('Voice quota exceeded')) {
+        return res.status(409).json({ error: VOICE_QUOTA_MESSAGE, code: 'quota_exceeded' });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ error: `A voice with the id "${id}" already exists. Choose another name.` });
+      }
+      throw error;
+    }
 
+    console.log(`[Reference Voices] Registered pending voice ${id} for ${req.user.email || req.user.id}`);
+    res.status(201).json({ voice: toCatalogVoice({ ...data, owner_email: req.user.email }, req.user) });
   } catch (error) {
-    console.error('[STT Transcribe] Error:', error);
-    res.status(500).json({ error: 'Transcription service unavailable' });
+    console.error('[Reference Voices] Failed to register voice:', error);
+    res.status(500).json({ error: 'Failed to register voice' });
+  }
+});
+
+// Admin: pending voices across services, with a short-lived link to the reference clip
+app.get('/api/voices/review', requireDatabase, requireRole('admin'), async (req, res) => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('voices_with_users')
+      .select(`${VOICE_COLUMNS}, source_object_url`)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(200);
+    if (error) throw error;
+
+    const s3Client = isS3Configured() ? createS3Client() : null;
+    const voices = await Promise.all(data.map(async (row) => ({
+      ...toCatalogVoice(row, req.user),
+      previewUrl: s3Client && row.source_object_url
+        ? await getSignedUrl(s3Client, new GetObjectCommand({ Bucket: S3_STT_BUCKET, Key: row.source_object_url }), { expiresIn: 3600 })
+        : null
+    })));
+
+    res.json({ voices });
+  } catch (error) {
+    console.error('[Reference Voices] Failed to list pending voices:', error);
+    res.status(500).json({ error: 'Failed to load pending voices' });
   }
 });
 
+// Copy an approved upload to processed/<filename>; returns the new key
+const publishReferenceVoice = async (voice) => {
+  const processedKey = `${REFERENCE_PROCESSED_PREFIX}${voice.filename}`;
+  await createS3Client().send(new CopyObjectCommand({
+    Bucket: S3_STT_BUCKET,
+    CopySource: encodeURI(`${S3_STT_BUCKET}/${voice.source_object_url}`),
+    Key: processedKey
+  }));
+  return processedKey;
+};
+
+const reviewVoice = (decision) => async (req, res) => {
+  try {
+    const update = {
+      status: decision === 'approve' ? 'approved' : 'denied',
+      approved_by_user_id: decision === 'approve' ? req.user.id : null
+    };
+
+    // The clip must be where the worker reads it before the voice is listed for everyone
+    if (decision === 'approve') {
+      const { data: voice, error: lookupError } = await supabaseAdmin
+        .from('voices')
+        .select('id, filename, source_object_url')
+        .eq('id', req.params.id)
+        .eq('status', 'pending')
+        .maybeSingle();
+      if (lookupError) throw lookupError;
+      if (!voice) {
+        return res.status(409).json({ error: 'Voice not found or already reviewed' });
+      }
+      if (!voice.source_object_url) {
+        return res.status(409).json({ error: 'Voice has no uploaded clip to publish' });
+      }
+      if (!isS3Configured()) {
+        return res.status(503).json({ error: 'Approving voices requires S3 storage (S3_STT_* settings)' });
+      }
+      update.ogg_object_url = await publishReferenceVoice(voice);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('voices')
+      .update(update)
+      .eq('id', req.params.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+    if (!data.length) {
+      return res.status(409).json({ error: 'Voice not found or already reviewed' });
+    }
+
+    // Approved voices join the shared catalog on the next request
+    invalidateVoiceCache();
+    console.log(`[Reference Voices] ${req.user.email || req.user.id} ${decision === 'approve' ? 'approved' : 'denied'} voice ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`[Reference Voices] Failed to ${decision} voice:`, error);
+    res.status(500).json({ error: `Failed to ${decision} voice` });
+  }
+};
+
+app.post('/api/voices/:id/approve', requireDatabase, requireRole('admin'), reviewVoice('approve'));
+app.post('/api/voices/:id/deny', requireDatabase, requireRole('admin'), reviewVoice('deny'));
+
 // Serve static assets (except index.html which we handle specifically for injection, 
 // though typical static middleware might grab it first if we aren't careful.
 // We can serve assets from dist/assets specifically, or just serve dist with index:false)
 app.use(express.static(DIST_DIR, { index: false }));
 
+// Variables the browser may see in server proxy mode; extend with CLIENT_ENV_ALLOWLIST=NAME,NAME
+const CLIENT_ENV_ALLOWLIST = [
+  'VITE_TTS_MODEL',
+  'VITE_TTS_VOICES',
+  'VITE_OPEN_AI_TTS_MODEL',
+  'VITE_OPEN_AI_TTS_VOICES',
+  'VITE_SUPABASE_URL',
+  'VITE_SUPABASE_ANON_KEY',
+  ...(process.env.CLIENT_ENV_ALLOWLIST || '').split(',').map(key => key.trim()).filter(Boolean)
+];
+
 // Helper to filter and get env vars
 const getRuntimeEnv = () => {
   const env = {};
   Object.keys(process.env).forEach(key => {
-    if (key.startsWith('VITE_')) {
+    const allowed = TTS_PROXY_MODE === 'direct'
+      ? key.startsWith('VITE_')
+      : CLIENT_ENV_ALLOWLIST.includes(key);
+    if (allowed) {
       env[key] = process.env[key];
     }
   });
+  env.TTS_PROXY_MODE = TTS_PROXY_MODE;
+  env.TTS_SERVICES = JSON.stringify(getClientServices());
   return env;
 };
 
+// Service registry as the browser sees it: no keys or management URLs in server mode
+const getClientServices = () => {
+  if (TTS_PROXY_MODE === 'direct') return TTS_SERVICES;
+  return TTS_SERVICES.map(({ auth, voiceApi: _voiceApi, streamEndpoint: _streamEndpoint, ...rest }) => ({
+    ...rest,
+    auth: { style: auth?.style || 'none' }
+  }));
+};
+
 // Serve index.html for all other routes (SPA)
 app.get('*', (_req, res) => {
   const indexFile = path.join(DIST_DIR, 'index.html');
@@ -487,9 +1507,24 @@ app.get('*', (_req, res) => {
 const server = createServer(app);
 
 // Alibaba TTS WebSocket Proxy
-const ALIBABA_TTS_WS = 'wss://dashscope-intl.aliyuncs.com/api-ws/v1/realtime';
+const ALIBABA_TTS_WS = ALIBABA_SERVICE?.endpoint || 'wss://dashscope-intl.aliyuncs.com/api-ws/v1/realtime';
+
+// WebSocket handshakes cannot carry headers from the browser; the token comes as ?access_token=
+const verifyWebSocketClient = ({ req }, done) => {
+  if (!AUTH_ENABLED) return done(true);
+
+  const token = new URL(req.url, 'http://localhost').searchParams.get('access_token');
+  if (!token) return done(false, 401, 'Authentication required');
 
-const wss = new WebSocketServer({ server, path: '/api/alibaba/tts' });
+  authenticateToken(token)
+    .then(user => done(!!user, 401, 'Invalid or expired session'))
+    .catch(error => {
+      console.error('[Alibaba WS Proxy] Token verification failed:', error);
+      done(false, 401, 'Invalid or expired session');
+    });
+};
+
+const wss = new WebSocketServer({ server, path: '/api/alibaba/tts', verifyClient: verifyWebSocketClient });
 
 wss.on('connection', (clientWs, _req) => {
   console.log('[Alibaba WS Proxy] Client connected');
@@ -516,9 +1551,7 @@ wss.on('connection', (clientWs, _req) => {
 
 
     alibabaWs = new WebSocket(wsUrl, {
-      headers: {
-        'Authorization': `Bearer ${ALIBABA_API_KEY}`
-      }
+      headers: getServiceAuthHeaders(ALIBABA_SERVICE)
     });
 
     alibabaWs.on('open', () => {
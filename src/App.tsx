@@ -1,29 +1,71 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Container, Box, Typography, TextField, Button, Select, MenuItem,
-  FormControl, InputLabel, Card, CardContent, IconButton, CircularProgress,
-  List, ListItem, ListItemText, ListItemSecondaryAction, Paper, Snackbar, Alert,
-  Tabs, Tab, Switch, FormControlLabel
+  FormControl, InputLabel, Card, CardContent, IconButton, CircularProgress, Snackbar, Alert,
+  Tabs, Tab, Switch, FormControlLabel, LinearProgress, Chip, Tooltip, AlertColor
 } from '@mui/material';
-import { PlayArrow, Pause, Delete, Download, LightMode, DarkMode, Add } from '@mui/icons-material';
+import { PlayArrow, Pause, Stop, LightMode, DarkMode, Add, Login, Logout, Tune } from '@mui/icons-material';
 import { TTSService } from './config';
 import { useColorMode } from './contexts/ThemeContext';
-import { useTTS } from './hooks/useTTS';
+import { useAuth, ROLE_LABELS } from './contexts/AuthContext';
+import { useTTS, requestSpeech } from './hooks/useTTS';
 import { useStreamingTTS } from './hooks/useStreamingTTS';
 import { useAlibabaTTS } from './hooks/useAlibabaTTS';
+import { useLongFormTTS, DEFAULT_LONG_FORM_SETTINGS, LongFormSettings, LongFormSegment } from './hooks/useLongFormTTS';
 import { useAudioPlayer } from './hooks/useAudioPlayer';
-import { useHistory, HistoryItem } from './hooks/useHistory';
+import { useHistory, HistoryItem, EvictionPolicy } from './hooks/useHistory';
+import { getAudioInfo } from './utils/audio';
 import { useObjectUrls } from './hooks/useObjectUrls';
-import { useAlibabaVoices, AlibabaVoice } from './hooks/useAlibabaVoices';
+import { useAlibabaVoices, AlibabaVoice, getPreferredName } from './hooks/useAlibabaVoices';
+import { useVoiceLabels } from './hooks/useVoiceLabels';
+import { useVoices } from './hooks/useVoices';
+import { useVoiceRequests } from './hooks/useVoiceRequests';
+import { useReferenceVoices } from './hooks/useReferenceVoices';
 import { VoiceCreationDialog } from './components/VoiceCreationDialog';
+import { VoiceManagerDialog } from './components/VoiceManagerDialog';
 import { STTTab } from './components/STTTab';
+import { HistoryLibrary } from './components/HistoryLibrary';
+import { AudioExportDialog } from './components/AudioExportDialog';
+import { SignInDialog } from './components/SignInDialog';
+import { CreatorAccessRequest } from './components/CreatorAccessRequest';
+import { AdminPanel } from './components/AdminPanel';
+
+// Generation settings recorded with each history item (audio details are measured on save)
+type HistoryMetadata = Omit<HistoryItem, 'id' | 'blob' | 'timestamp' | 'duration'>;
+
+interface VoiceOption {
+  id: string;
+  label: string;
+  detail?: string;   // Owner and creation date for catalog voices
+  pending?: boolean; // Awaiting admin approval (listed for its owner and admins, not usable for synthesis yet)
+}
 
 function App() {
   const { mode, toggleMode } = useColorMode();
+  const auth = useAuth();
   const { loading: httpLoading, error: httpTtsError, generate: httpGenerate, config } = useTTS();
-  const { loading: wsLoading, error: wsTtsError, generate: wsGenerate } = useAlibabaTTS();
+  const {
+    loading: wsLoading,
+    error: wsTtsError,
+    openSession: openAlibabaSession,
+    speak: alibabaSpeak,
+    closeSession: closeAlibabaSession
+  } = useAlibabaTTS();
   const { playingId, error: audioError, play, pause } = useAudioPlayer();
-  const { history, addItem, removeItem } = useHistory();
+  const {
+    history,
+    isLoading: historyLoading,
+    hasMore: historyHasMore,
+    loadMore: loadMoreHistory,
+    filters: historyFilters,
+    setFilters: setHistoryFilters,
+    stats: historyStats,
+    storage: historyStorage,
+    evictionPolicy,
+    updateEvictionPolicy,
+    addItem,
+    removeItem
+  } = useHistory();
   const { objectUrls, createUrl, revokeUrl } = useObjectUrls();
   const {
     voices: alibabaVoices,
@@ -31,21 +73,62 @@ function App() {
     error: voicesError,
     listVoices,
     createVoice,
+    deleteVoices,
     clearError: clearVoicesError
   } = useAlibabaVoices();
+  const { labels: voiceLabels, setLabel: setVoiceLabel, removeLabels: removeVoiceLabels } = useVoiceLabels();
+  const {
+    voices: catalogVoices,
+    serviceId: catalogServiceId,
+    loading: catalogLoading,
+    error: catalogError,
+    loadVoices: loadCatalogVoices
+  } = useVoices();
+  const {
+    myRequest,
+    loading: requestLoading,
+    error: requestError,
+    loadMyRequest,
+    requestAccess
+  } = useVoiceRequests();
+  const {
+    uploadVoice,
+    loading: uploadLoading,
+    error: uploadError,
+    clearError: clearUploadError
+  } = useReferenceVoices();
 
   // Initialize streaming hook
   const {
     generateStreaming,
+    controller: streamController,
+    closeRealtimeSession,
     isStreaming,
-    chunksReceived
+    isPlaying: isStreamPlaying,
+    isPaused: isStreamPaused,
+    chunksReceived,
+    stats: streamStats
   } = useStreamingTTS();
 
+  const {
+    segments: longFormSegments,
+    isRunning: longFormRunning,
+    progress: longFormProgress,
+    error: longFormError,
+    generate: generateLongForm,
+    retrySegment: retryLongFormSegment,
+    reset: resetLongForm
+  } = useLongFormTTS();
+
   const [text, setText] = useState('');
   const [voice, setVoice] = useState(config.voices[0]?.id || '');
   const [selectedService, setSelectedService] = useState<TTSService | undefined>(config.services[0]);
   const [voiceDialogOpen, setVoiceDialogOpen] = useState(false);
-  const [currentTab, setCurrentTab] = useState<'tts' | 'stt'>('tts');
+  const [voiceManagerOpen, setVoiceManagerOpen] = useState(false);
+  const [signInOpen, setSignInOpen] = useState(false);
+  const [currentTab, setCurrentTab] = useState<'tts' | 'stt' | 'admin'>('tts');
+  const [notice, setNotice] = useState<{ message: string; severity: AlertColor } | null>(null);
+  const [exportItem, setExportItem] = useState<HistoryItem | null>(null);
   
   // Add streaming preference state
   const [useStreaming, setUseStreaming] = useState(() => {
@@ -59,16 +142,88 @@ function App() {
     localStorage.setItem('tts_streaming', JSON.stringify(useStreaming));
   }, [useStreaming]);
 
-  const loading = httpLoading || wsLoading || isStreaming;
-  const error = httpTtsError || wsTtsError || audioError || voicesError;
-  const isAlibabaService = selectedService?.id === 'alibaba';
+  // Long-form mode preference and settings
+  const [useLongForm, setUseLongForm] = useState(() => {
+    const saved = localStorage.getItem('tts_long_form');
+    return saved ? JSON.parse(saved) : false;
+  });
+  const [longFormSettings, setLongFormSettings] = useState<LongFormSettings>(() => {
+    const saved = localStorage.getItem('tts_long_form_settings');
+    return saved ? { ...DEFAULT_LONG_FORM_SETTINGS, ...JSON.parse(saved) } : DEFAULT_LONG_FORM_SETTINGS;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('tts_long_form', JSON.stringify(useLongForm));
+  }, [useLongForm]);
+
+  useEffect(() => {
+    localStorage.setItem('tts_long_form_settings', JSON.stringify(longFormSettings));
+  }, [longFormSettings]);
 
-  // Load Alibaba voices when service is selected
+  // Prompt/voice/service of the current long-form run, used when a retry completes it later
+  const longFormRequestRef = useRef<HistoryMetadata | null>(null);
+
+  const loading = httpLoading || wsLoading || isStreaming || longFormRunning;
+  const error = httpTtsError || wsTtsError || audioError || voicesError || longFormError;
+  // Voices come from the Alibaba enrollment API or the voice catalog instead of VITE_TTS_VOICES
+  const usesEnrolledVoices = selectedService?.voicesSource === 'alibaba-enrollment';
+  const usesCatalog = selectedService?.voicesSource === 'catalog';
+  const canCreateVoices = !!selectedService?.capabilities.voiceCloning;
+  const isVoiceCreator = auth.hasRole('voice_creator', 'admin');
+
+  // /api routes need a session when auth is enabled
+  const canCallApi = !auth.enabled || !!auth.user;
+
+  // Load enrolled voices when such a service is selected
   useEffect(() => {
-    if (selectedService?.id === 'alibaba' && alibabaVoices.length === 0) {
+    if (usesEnrolledVoices && canCallApi && alibabaVoices.length === 0) {
       listVoices();
     }
-  }, [selectedService?.id, alibabaVoices.length, listVoices]);
+  }, [usesEnrolledVoices, canCallApi, alibabaVoices.length, listVoices]);
+
+  // Release the realtime session once another service is selected
+  useEffect(() => {
+    if (selectedService?.transport !== 'alibaba-realtime-ws') {
+      closeAlibabaSession();
+      closeRealtimeSession();
+    }
+  }, [selectedService?.transport, closeAlibabaSession, closeRealtimeSession]);
+
+  // Track the signed-in user's creator request
+  useEffect(() => {
+    if (auth.enabled && auth.user) {
+      loadMyRequest();
+    }
+  }, [auth.enabled, auth.user?.id, loadMyRequest]);
+
+  // A reviewed request changes the role: refresh it and tell the user without a reload
+  const requestStatusRef = useRef(myRequest?.status);
+  useEffect(() => {
+    const previous = requestStatusRef.current;
+    requestStatusRef.current = myRequest?.status;
+    if (previous !== 'pending' || !myRequest || myRequest.status === 'pending') return;
+
+    auth.refreshRole();
+    setNotice(myRequest.status === 'approved'
+      ? { message: 'Creator access approved. You can now create voices.', severity: 'success' }
+      : { message: 'Your creator access request was denied.', severity: 'warning' });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [myRequest?.status]);
+
+  // Leave the admin tab if the admin role goes away (e.g. sign-out)
+  useEffect(() => {
+    if (currentTab === 'admin' && auth.role !== 'admin') {
+      setCurrentTab('tts');
+    }
+  }, [currentTab, auth.role]);
+
+  // Load the catalog for the selected service (and again after signing in or out)
+  useEffect(() => {
+    if (usesCatalog && canCallApi && selectedService) {
+      loadCatalogVoices(selectedService.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [usesCatalog, canCallApi, selectedService?.id, auth.user?.id, loadCatalogVoices]);
 
   // Initialize selected service if not already set
   useEffect(() => {
@@ -80,6 +235,11 @@ function App() {
 
   // Create object URLs for any history items that don't have them
   useEffect(() => {
+    // Release URLs for items no longer in the loaded page set (filtered out or evicted)
+    Object.keys(objectUrls)
+      .filter(id => id !== playingId && !history.some(item => item.id === id))
+      .forEach(id => revokeUrl(id));
+
     if (history.length === 0) return;
 
     // Find items that don't have URLs yet
@@ -97,15 +257,34 @@ function App() {
   const handleGenerate = async () => {
     if (!text.trim() || !selectedService) return;
 
+    // Long-form runs segment by segment in batch mode, regardless of the streaming switch
+    if (useLongForm) {
+      await handleLongFormTTS();
+      return;
+    }
+
     // Decision: Streaming or Batch?
-    // We don't stream for Alibaba (WebSocket handled separately)
-    const shouldStream = useStreaming && selectedService.id !== 'alibaba';
+    const shouldStream = useStreaming && selectedService.capabilities.streaming;
 
     if (shouldStream) {
+      const startedAt = performance.now();
+      const service = selectedService;
       await generateStreaming({
         text,
         voice,
-        serviceId: selectedService.id,
+        serviceId: service.id,
+        onComplete: async (_duration, { blob, sampleRate }) => {
+          // Already heard while streaming; save without playing it again
+          await saveToHistory(blob, {
+            text,
+            voice,
+            serviceId: service.id,
+            model: getServiceModel(service),
+            mode: 'stream',
+            sampleRate,
+            latencyMs: Math.round(performance.now() - startedAt),
+          }, { autoPlay: false });
+        },
         onError: (error) => {
           console.error('[App] Streaming failed, falling back to batch:', error);
           // Fallback to batch
@@ -121,15 +300,12 @@ function App() {
     if (!selectedService) return;
     
     console.log('[App] Using batch TTS mode');
+    const startedAt = performance.now();
     let blob: Blob | null = null;
 
-    // Use WebSocket for Alibaba, HTTP for others
-    if (selectedService.id === 'alibaba') {
-      blob = await wsGenerate({
-        text,
-        voice,
-        service: selectedService
-      });
+    // Realtime services go over the WebSocket proxy, everything else over HTTP
+    if (selectedService.transport === 'alibaba-realtime-ws') {
+      blob = await speakRealtime(text);
     } else {
       blob = await httpGenerate({
         text,
@@ -140,26 +316,114 @@ function App() {
 
     if (!blob) return;
 
+    await saveToHistory(blob, {
+      text,
+      voice,
+      serviceId: selectedService.id,
+      model: getServiceModel(selectedService),
+      mode: 'batch',
+      // The realtime API returns 24kHz PCM wrapped in WAV
+      sampleRate: selectedService.transport === 'alibaba-realtime-ws' ? 24000 : undefined,
+      latencyMs: Math.round(performance.now() - startedAt),
+    });
+  };
+
+  const getServiceModel = (service: TTSService): string => {
+    return service.targetModel || config.model;
+  };
+
+  // Realtime generations share one session per voice instead of reconnecting each time
+  const speakRealtime = async (speechText: string): Promise<Blob | null> => {
+    if (!selectedService) return null;
+    const opened = await openAlibabaSession({ voice, service: selectedService });
+    return opened ? alibabaSpeak(speechText) : null;
+  };
+
+  // Synthesize a single long-form segment with the selected service
+  // Failures throw so each segment keeps its own error instead of the shared batch state
+  const synthesizeSegment = async (segmentText: string): Promise<Blob | null> => {
+    if (!selectedService) return null;
+
+    if (selectedService.transport === 'alibaba-realtime-ws') {
+      return speakRealtime(segmentText);
+    }
+    return requestSpeech({ text: segmentText, voice, serviceId: selectedService.id });
+  };
+
+  const handleLongFormTTS = async () => {
+    if (!selectedService) return;
+
+    console.log('[App] Using long-form TTS mode');
+    const startedAt = performance.now();
+    const request: HistoryMetadata = {
+      text,
+      voice,
+      serviceId: selectedService.id,
+      model: getServiceModel(selectedService),
+      mode: 'long-form',
+    };
+    longFormRequestRef.current = request;
+
+    const blob = await generateLongForm({
+      text,
+      synthesize: synthesizeSegment,
+      ...longFormSettings
+    });
+
+    if (blob) {
+      await saveToHistory(blob, { ...request, latencyMs: Math.round(performance.now() - startedAt) });
+    }
+  };
+
+  const handleRetrySegment = async (index: number) => {
+    const request = longFormRequestRef.current;
+    if (!request) return;
+
+    const startedAt = performance.now();
+    const blob = await retryLongFormSegment(index);
+    if (blob) {
+      await saveToHistory(blob, { ...request, latencyMs: Math.round(performance.now() - startedAt) });
+    }
+  };
+
+  const saveToHistory = async (blob: Blob, metadata: HistoryMetadata, { autoPlay = true } = {}) => {
+    let duration: number | undefined;
+    let sampleRate = metadata.sampleRate;
+    try {
+      const info = await getAudioInfo(blob);
+      duration = info.duration;
+      sampleRate = sampleRate ?? info.sampleRate;
+    } catch (err) {
+      console.warn('[App] Could not read audio details:', err);
+    }
+
     const timestamp = Date.now();
     const newItem: HistoryItem = {
+      ...metadata,
       id: `${timestamp}-${Math.random().toString(36).substr(2, 9)}`,
-      text,
-      voice,
+      responseFormat: metadata.responseFormat || blob.type || undefined,
+      duration,
+      sampleRate,
       blob,
       timestamp,
     };
 
-    const newHistory = await addItem(newItem);
+    const { evicted: evictedIds, quotaExceeded } = await addItem(newItem);
 
-    // Revoke URL of dropped item if we exceeded max history
-    if (newHistory.length === 5 && history.length === 5) {
-      const droppedId = history[4].id;
-      revokeUrl(droppedId);
+    // Revoke URLs of items dropped by the eviction policy
+    evictedIds.forEach(id => revokeUrl(id));
+    if (quotaExceeded) {
+      setNotice({
+        message: 'Browser storage is full, so this clip was not saved. Delete clips or choose an eviction policy in the history storage settings.',
+        severity: 'warning',
+      });
     }
 
     // Create URL and auto-play
     const url = createUrl(newItem.id, blob);
-    play(newItem.id, url);
+    if (autoPlay) {
+      play(newItem.id, url);
+    }
   };
 
   const handleDelete = async (id: string) => {
@@ -172,56 +436,122 @@ function App() {
     }
   };
 
+  const handleEvictionPolicyChange = async (policy: EvictionPolicy) => {
+    const evictedIds = await updateEvictionPolicy(policy);
+    evictedIds.forEach(id => revokeUrl(id));
+  };
+
+  const handlePlayHistoryItem = (item: HistoryItem) => {
+    const url = objectUrls[item.id];
+    if (url) {
+      play(item.id, url);
+    } else {
+      console.error('[DEBUG] No URL for item:', item.id, 'Available URLs:', Object.keys(objectUrls));
+    }
+  };
+
+  // Repopulate the Prompt/Service/Voice controls from a history item
+  const handleRegenerate = (item: HistoryItem) => {
+    const service = config.services.find(s => s.id === item.serviceId);
+    if (item.serviceId && !service) {
+      setNotice({ message: `Service "${item.serviceId}" is no longer configured`, severity: 'warning' });
+      return;
+    }
+
+    setText(item.text);
+    if (service) {
+      setSelectedService(service);
+    }
+    setVoice(item.voice);
+    if (item.mode === 'long-form') {
+      setUseLongForm(true);
+    } else if (item.mode) {
+      setUseLongForm(false);
+      setUseStreaming(item.mode === 'stream');
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const getServiceLabel = useCallback((serviceId: string) => {
+    return config.services.find(s => s.id === serviceId)?.label || serviceId;
+  }, [config.services]);
+
+  // Opens the export dialog; the original container is sniffed there for the file extension
   const handleDownload = (id: string) => {
-    const url = objectUrls[id];
-    if (!url) return;
     const item = history.find(h => h.id === id);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `echo-tts-${item?.voice}-${id}.ogg`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    if (item) {
+      setExportItem(item);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await auth.signOut();
+    } catch (err: unknown) {
+      setNotice({ message: err instanceof Error ? err.message : 'Failed to sign out', severity: 'warning' });
+    }
   };
 
   const handleClear = () => {
     setText('');
-    setVoice(isAlibabaService ? (alibabaVoices[0]?.voice || '') : (config.voices[0]?.id || ''));
+    resetLongForm();
+    setVoice(getCurrentVoices().find(v => !v.pending)?.id || '');
   };
 
   // Voice creation success handler
-  const handleVoiceCreated = useCallback((voiceId: string) => {
-    setVoice(voiceId);
+  const handleVoiceCreated = useCallback(async (voiceId: string) => {
     setVoiceDialogOpen(false);
     clearVoicesError();
-  }, [clearVoicesError]);
+    if (usesCatalog && selectedService) {
+      // Uploaded voices are pending: the TTS backend only gets the clip once an admin approves it
+      await loadCatalogVoices(selectedService.id);
+      setNotice({ message: 'Voice uploaded. You can use it once an admin approves it.', severity: 'success' });
+      return;
+    }
+    setVoice(voiceId);
+  }, [clearVoicesError, usesCatalog, selectedService, loadCatalogVoices]);
 
   // Get current voices based on service selection
-  const getCurrentVoices = useCallback((): { id: string; label: string }[] => {
-    if (isAlibabaService) {
+  const getCurrentVoices = useCallback((): VoiceOption[] => {
+    if (usesEnrolledVoices) {
       return alibabaVoices.map((v: AlibabaVoice) => {
-        // Extract preferred_name from voice ID format: qwen-tts-vc-{name}-voice-{timestamp}-{hash}
-        const match = v.voice.match(/qwen-tts-vc-(.+?)-voice-/);
-        const displayName = match ? match[1] : v.voice;
+        const preferredName = getPreferredName(v.voice);
+        const alias = voiceLabels[v.voice]?.alias;
 
         return {
           id: v.voice,
-          label: displayName // Use extracted preferred_name
+          label: alias || preferredName, // Local alias wins over the extracted preferred_name
+          detail: alias ? preferredName : undefined,
         };
       });
     }
+    // The static list stays as a fallback when the catalog cannot be reached
+    if (usesCatalog && !catalogError && catalogServiceId === selectedService?.id) {
+      return catalogVoices.map(v => ({
+        id: v.id,
+        label: v.displayName,
+        detail: [v.owner, v.createdAt && new Date(v.createdAt).toLocaleDateString()].filter(Boolean).join(' • '),
+        pending: v.status === 'pending',
+      }));
+    }
     return config.voices;
-  }, [isAlibabaService, alibabaVoices, config.voices]);
+  }, [usesEnrolledVoices, alibabaVoices, voiceLabels, usesCatalog, catalogError, catalogServiceId, catalogVoices, selectedService?.id, config.voices]);
+
+  // The catalog for the selected service is still on its way; the static fallback is not the real list
+  const catalogPending = usesCatalog && canCallApi && !catalogError
+    && (catalogLoading || catalogServiceId !== selectedService?.id);
 
   // Update voice when service changes
+  // Waits for the catalog so a catalog-only voice (e.g. from Regenerate) survives the service switch
   useEffect(() => {
-    const currentVoices = getCurrentVoices();
-    if (currentVoices.length > 0 && !currentVoices.find(v => v.id === voice)) {
-      setVoice(currentVoices[0].id);
+    if (catalogPending) return;
+    const usableVoices = getCurrentVoices().filter(v => !v.pending);
+    if (usableVoices.length > 0 && !usableVoices.find(v => v.id === voice)) {
+      setVoice(usableVoices[0].id);
     }
-  }, [selectedService?.id, getCurrentVoices, voice]);
+  }, [selectedService?.id, getCurrentVoices, voice, catalogPending]);
 
-  const handleTabChange = (_event: React.SyntheticEvent, newValue: 'tts' | 'stt') => {
+  const handleTabChange = (_event: React.SyntheticEvent, newValue: 'tts' | 'stt' | 'admin') => {
     setCurrentTab(newValue);
   };
 
@@ -271,6 +601,33 @@ function App() {
             <Typography variant="caption" color="text.secondary">
               {config.model}
             </Typography>
+            {auth.enabled && (auth.user ? (
+              <>
+                <Tooltip title={auth.user.email || ''}>
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    label={auth.role ? ROLE_LABELS[auth.role] : '...'}
+                    color={auth.role === 'admin' ? 'secondary' : auth.role === 'voice_creator' ? 'primary' : 'default'}
+                  />
+                </Tooltip>
+                <Tooltip title="Sign out">
+                  <IconButton onClick={handleSignOut} size="small" color="inherit">
+                    <Logout />
+                  </IconButton>
+                </Tooltip>
+              </>
+            ) : (
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<Login />}
+                onClick={() => setSignInOpen(true)}
+                disabled={auth.loading}
+              >
+                Sign in
+              </Button>
+            ))}
             <IconButton onClick={toggleMode} size="small" color="inherit">
               {mode === 'dark' ? <LightMode /> : <DarkMode />}
             </IconButton>
@@ -278,11 +635,18 @@ function App() {
         </Box>
       </Box>
 
+      {auth.enabled && !auth.loading && !auth.user && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          Sign in to generate speech and transcribe audio.
+        </Alert>
+      )}
+
       {/* Tabs Navigation */}
       <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
         <Tabs value={currentTab} onChange={handleTabChange}>
           <Tab label="Text to Speech" value="tts" />
           <Tab label="Speech to Text" value="stt" />
+          {auth.role === 'admin' && <Tab label="Admin" value="admin" />}
         </Tabs>
       </Box>
 
@@ -328,7 +692,8 @@ function App() {
                     value={voice}
                     label="Voice"
                     onChange={(e) => setVoice(e.target.value)}
-                    disabled={loading || (isAlibabaService && voicesLoading)}
+                    disabled={loading || (usesEnrolledVoices && voicesLoading) || catalogPending}
+                    renderValue={(value) => getCurrentVoices().find(v => v.id === value)?.label || value}
                     fullWidth
                     MenuProps={{
                       PaperProps: {
@@ -339,30 +704,77 @@ function App() {
                       }
                     }}
                   >
-                    {getCurrentVoices().map((v: { id: string; label: string }) => (
-                      <MenuItem key={v.id} value={v.id}>{v.label}</MenuItem>
+                    {getCurrentVoices().map((v: VoiceOption) => (
+                      <MenuItem key={v.id} value={v.id} disabled={v.pending}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                            <Typography variant="body2" noWrap>{v.label}</Typography>
+                            {v.detail && (
+                              <Typography variant="caption" color="text.secondary" noWrap component="div">
+                                {v.detail}
+                              </Typography>
+                            )}
+                          </Box>
+                          {v.pending && <Chip label="Pending approval" size="small" color="warning" variant="outlined" />}
+                        </Box>
+                      </MenuItem>
                     ))}
-                    {isAlibabaService && alibabaVoices.length === 0 && !voicesLoading && (
+                    {usesEnrolledVoices && alibabaVoices.length === 0 && !voicesLoading && (
                       <MenuItem disabled>No voices yet. Create one below.</MenuItem>
                     )}
+                    {usesCatalog && getCurrentVoices().length === 0 && !catalogLoading && (
+                      <MenuItem disabled>No voices available for this service</MenuItem>
+                    )}
                   </Select>
                 </Box>
-                {isAlibabaService && (
-                  <Button
-                    variant="outlined"
-                    size="small"
-                    onClick={() => setVoiceDialogOpen(true)}
-                    disabled={loading}
-                    startIcon={<Add />}
-                    sx={{ minWidth: 'fit-content', alignSelf: 'flex-end', mb: 1 }}
-                  >
-                    Create
-                  </Button>
+                {canCreateVoices && (
+                  <Tooltip title={isVoiceCreator ? '' : 'Voice creation requires voice creator access'}>
+                    <Box component="span" sx={{ alignSelf: 'flex-end', mb: 1 }}>
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        onClick={() => setVoiceDialogOpen(true)}
+                        disabled={loading || !isVoiceCreator}
+                        startIcon={<Add />}
+                        sx={{ minWidth: 'fit-content' }}
+                      >
+                        Create
+                      </Button>
+                    </Box>
+                  </Tooltip>
+                )}
+                {usesEnrolledVoices && (
+                  <Box component="span" sx={{ alignSelf: 'flex-end', mb: 1 }}>
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      onClick={() => setVoiceManagerOpen(true)}
+                      disabled={loading || !canCallApi}
+                      startIcon={<Tune />}
+                      sx={{ minWidth: 'fit-content' }}
+                    >
+                      Manage
+                    </Button>
+                  </Box>
                 )}
               </Box>
             </FormControl>
           </Box>
 
+          {canCreateVoices && auth.enabled && auth.user && !isVoiceCreator && (
+            <CreatorAccessRequest
+              request={myRequest}
+              role={auth.role}
+              onRequest={async (notes) => {
+                const ok = await requestAccess(notes);
+                if (ok) auth.refreshRole();
+                return ok;
+              }}
+              loading={requestLoading}
+              error={requestError}
+            />
+          )}
+
           <Box sx={{ mb: 2 }}>
              <FormControlLabel
                 control={
@@ -377,9 +789,22 @@ function App() {
                     <Typography variant="body2">
                       Stream audio (faster)
                     </Typography>
-                    {isStreaming && (
+                    {isStreamPlaying && (
                       <Typography variant="caption" color="primary">
-                        Streaming... ({chunksReceived} chunks)
+                        {isStreamPaused ? 'Paused' : isStreaming ? 'Streaming...' : 'Playing...'} ({chunksReceived} chunks)
+                      </Typography>
+                    )}
+                    {isStreamPlaying && streamStats && (
+                      <Typography variant="caption" color="text.secondary" component="div">
+                        Buffered {streamStats.bufferedSeconds.toFixed(1)} s
+                        {' • '}prebuffer {streamStats.prebufferSeconds.toFixed(2)} s
+                        {' • '}{streamStats.underruns} underrun{streamStats.underruns === 1 ? '' : 's'}
+                        {streamStats.timeToFirstAudioMs !== null && ` • first audio ${streamStats.timeToFirstAudioMs} ms`}
+                      </Typography>
+                    )}
+                    {useStreaming && selectedService && !selectedService.capabilities.streaming && (
+                      <Typography variant="caption" color="text.secondary">
+                        {selectedService.label} does not stream; audio plays when complete
                       </Typography>
                     )}
                   </Box>
@@ -387,7 +812,94 @@ function App() {
               />
           </Box>
 
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={useLongForm}
+                    onChange={(e) => setUseLongForm(e.target.checked)}
+                    disabled={loading}
+                  />
+                }
+                label={<Typography variant="body2">Long-form mode (split &amp; stitch)</Typography>}
+              />
+              {useLongForm && (
+                <>
+                  <FormControl size="small" sx={{ minWidth: 130 }}>
+                    <InputLabel>Concurrency</InputLabel>
+                    <Select
+                      value={longFormSettings.concurrency}
+                      label="Concurrency"
+                      onChange={(e) => setLongFormSettings(prev => ({ ...prev, concurrency: Number(e.target.value) }))}
+                      disabled={loading}
+                    >
+                      {[1, 2, 3, 4].map(n => (
+                        <MenuItem key={n} value={n}>{n === 1 ? 'Sequential' : `${n} parallel`}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    label="Silence (ms)"
+                    type="number"
+                    size="small"
+                    value={longFormSettings.silenceMs}
+                    onChange={(e) => setLongFormSettings(prev => ({ ...prev, silenceMs: Math.max(0, Number(e.target.value) || 0) }))}
+                    disabled={loading}
+                    inputProps={{ min: 0, max: 5000, step: 50 }}
+                    sx={{ width: 130 }}
+                  />
+                </>
+              )}
+            </Box>
+
+            {longFormSegments.length > 0 && (
+              <Box sx={{ mt: 1 }}>
+                <LinearProgress variant="determinate" value={longFormProgress} sx={{ mb: 1 }} />
+                <Typography variant="caption" color="text.secondary">
+                  {longFormSegments.filter(s => s.status === 'done').length} / {longFormSegments.length} segments
+                  {longFormRunning ? ' • generating...' : ''}
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+                  {longFormSegments.map((segment: LongFormSegment) => (
+                    <Tooltip
+                      key={segment.index}
+                      title={segment.error ? `${segment.error} — click to retry` : segment.text}
+                    >
+                      <Chip
+                        size="small"
+                        label={segment.index + 1}
+                        variant={segment.status === 'pending' ? 'outlined' : 'filled'}
+                        color={
+                          segment.status === 'done' ? 'success'
+                            : segment.status === 'failed' ? 'error'
+                            : segment.status === 'running' ? 'primary'
+                            : 'default'
+                        }
+                        onClick={segment.status === 'failed' && !loading ? () => handleRetrySegment(segment.index) : undefined}
+                      />
+                    </Tooltip>
+                  ))}
+                </Box>
+              </Box>
+            )}
+          </Box>
+
           <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+            {isStreamPlaying && (
+              <>
+                <Button
+                  variant="outlined"
+                  onClick={isStreamPaused ? streamController.resume : streamController.pause}
+                  startIcon={isStreamPaused ? <PlayArrow /> : <Pause />}
+                >
+                  {isStreamPaused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button variant="outlined" color="error" onClick={streamController.stop} startIcon={<Stop />}>
+                  Stop
+                </Button>
+              </>
+            )}
             <Button variant="outlined" onClick={handleClear} disabled={loading}>
               Clear
             </Button>
@@ -403,71 +915,25 @@ function App() {
         </CardContent>
       </Card>
 
-      <Typography variant="h6" sx={{ mb: 2 }}>History</Typography>
-      
-      <Paper elevation={2}>
-        <List>
-            {history.length === 0 && (
-                <ListItem>
-                    <ListItemText primary="No history yet." secondary="Generated audio will appear here." />
-                </ListItem>
-            )}
-            {history.map((item) => (
-              <ListItem
-                key={item.id}
-                divider
-                sx={{ pr: { xs: 17, sm: 18 } }}
-              >
-                <ListItemText
-                  primary={
-                    <Typography
-                      variant="body1"
-                      noWrap
-                      sx={{
-                        pr: 1,
-                        overflow: 'hidden',
-                        textOverflow: 'ellipsis'
-                      }}
-                    >
-                        {item.text}
-                    </Typography>
-                  }
-                  secondary={`${item.voice} • ${new Date(item.timestamp).toLocaleTimeString()}`}
-                  sx={{ pr: 1 }}
-                />
-                <ListItemSecondaryAction>
-                  <IconButton
-                    onClick={() => {
-                      const url = objectUrls[item.id];
-                      if (url) {
-                        play(item.id, url);
-                      } else {
-                        console.error('[DEBUG] No URL for item:', item.id, 'Available URLs:', Object.keys(objectUrls));
-                      }
-                    }}
-                    size="small"
-                    disabled={!objectUrls[item.id]}
-                  >
-                    {playingId === item.id ? <Pause /> : <PlayArrow />}
-                  </IconButton>
-                  <IconButton
-                    onClick={() => handleDownload(item.id)}
-                    size="small"
-                  >
-                    <Download />
-                  </IconButton>
-                  <IconButton
-                    edge="end"
-                    onClick={() => handleDelete(item.id)}
-                    size="small"
-                  >
-                    <Delete />
-                  </IconButton>
-                </ListItemSecondaryAction>
-              </ListItem>
-            ))}
-        </List>
-      </Paper>
+      <HistoryLibrary
+        items={history}
+        objectUrls={objectUrls}
+        playingId={playingId}
+        isLoading={historyLoading}
+        hasMore={historyHasMore}
+        onLoadMore={loadMoreHistory}
+        onPlay={handlePlayHistoryItem}
+        onDownload={handleDownload}
+        onDelete={handleDelete}
+        onRegenerate={handleRegenerate}
+        filters={historyFilters}
+        onFiltersChange={setHistoryFilters}
+        stats={historyStats}
+        storage={historyStorage}
+        evictionPolicy={evictionPolicy}
+        onEvictionPolicyChange={handleEvictionPolicyChange}
+        getServiceLabel={getServiceLabel}
+      />
 
           <Snackbar open={!!error} autoHideDuration={6000}>
             <Alert severity="error" sx={{ width: '100%' }}>
@@ -475,23 +941,84 @@ function App() {
             </Alert>
           </Snackbar>
 
-          {/* Voice Creation Dialog for Alibaba */}
-          <VoiceCreationDialog
-            open={voiceDialogOpen}
-            onClose={() => setVoiceDialogOpen(false)}
-            onSuccess={handleVoiceCreated}
-            targetModel={selectedService?.targetModel || 'qwen3-tts-vc-realtime-2025-11-27'}
-            createVoice={createVoice}
+          <Snackbar open={!!notice} autoHideDuration={6000} onClose={() => setNotice(null)}>
+            <Alert severity={notice?.severity || 'warning'} onClose={() => setNotice(null)} sx={{ width: '100%' }}>
+              {notice?.message}
+            </Alert>
+          </Snackbar>
+
+          <AudioExportDialog
+            open={!!exportItem}
+            item={exportItem}
+            onClose={() => setExportItem(null)}
+          />
+
+          <SignInDialog
+            open={signInOpen}
+            onClose={() => setSignInOpen(false)}
+            signIn={auth.signIn}
+            signUp={auth.signUp}
+          />
+
+          {/* Voice Manager for enrolled (Alibaba) voices */}
+          <VoiceManagerDialog
+            open={voiceManagerOpen}
+            onClose={() => setVoiceManagerOpen(false)}
+            service={usesEnrolledVoices ? selectedService : null}
+            voices={alibabaVoices}
             loading={voicesLoading}
             error={voicesError}
             clearError={clearVoicesError}
+            onRefresh={listVoices}
+            onDelete={async (voiceIds) => {
+              const result = await deleteVoices(voiceIds);
+              removeVoiceLabels(result.deleted);
+              return result;
+            }}
+            canDelete={isVoiceCreator}
+            labels={voiceLabels}
+            onLabelChange={setVoiceLabel}
           />
+
+          {/* Voice Creation Dialog for services with voice cloning */}
+          {usesCatalog ? (
+            <VoiceCreationDialog
+              open={voiceDialogOpen}
+              onClose={() => setVoiceDialogOpen(false)}
+              onSuccess={handleVoiceCreated}
+              targetModel={config.model}
+              createVoice={({ file, preferredName }) =>
+                uploadVoice({ file, preferredName, serviceId: selectedService?.id || '' })}
+              loading={uploadLoading}
+              error={uploadError}
+              clearError={clearUploadError}
+              variant="reference"
+            />
+          ) : (
+            <VoiceCreationDialog
+              open={voiceDialogOpen}
+              onClose={() => setVoiceDialogOpen(false)}
+              onSuccess={handleVoiceCreated}
+              targetModel={selectedService?.targetModel || 'qwen3-tts-vc-realtime-2025-11-27'}
+              createVoice={createVoice}
+              loading={voicesLoading}
+              error={voicesError}
+              clearError={clearVoicesError}
+            />
+          )}
       </Box>
 
       {/* STT Tab Content */}
       <Box sx={{ display: currentTab === 'stt' ? 'block' : 'none' }}>
         <STTTab />
       </Box>
+
+      {/* Admin Tab Content */}
+      {auth.role === 'admin' && (
+        <Box sx={{ display: currentTab === 'admin' ? 'block' : 'none' }}>
+          <AdminPanel active={currentTab === 'admin'} />
+        </Box>
+      )}
     </Container>
   );
 }
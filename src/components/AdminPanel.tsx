@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Alert,
+  Chip,
+  IconButton,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import { Refresh, Check, Close } from '@mui/icons-material';
+import { useVoiceRequests, VoiceRequest, VoiceRequestStatus } from '../hooks/useVoiceRequests';
+import { VoiceReviewPanel } from './VoiceReviewPanel';
+
+interface AdminPanelProps {
+  active: boolean; // Reload when the tab is opened
+}
+
+const STATUS_COLORS: Record<VoiceRequestStatus, 'warning' | 'success' | 'error'> = {
+  pending: 'warning',
+  approved: 'success',
+  denied: 'error',
+};
+
+const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleString() : '';
+
+/**
+ * Admin tab: review creator access requests and uploaded voices
+ */
+export function AdminPanel({ active }: AdminPanelProps) {
+  const { requests, loading, error, loadRequests, approveRequest, denyRequest, clearError } = useVoiceRequests();
+  const [status, setStatus] = useState<VoiceRequestStatus>('pending');
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (active) loadRequests(status);
+  }, [active, status, loadRequests]);
+
+  const handleReview = async (request: VoiceRequest, decision: 'approve' | 'deny') => {
+    const notes = reviewNotes[request.id] || '';
+    const ok = decision === 'approve'
+      ? await approveRequest(request.id, notes)
+      : await denyRequest(request.id, notes);
+    if (ok) {
+      setReviewNotes(({ [request.id]: _removed, ...rest }) => rest);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Card>
+        <CardContent>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+            <Typography variant="h6">Creator Access Requests</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <ToggleButtonGroup
+                value={status}
+                exclusive
+                size="small"
+                onChange={(_e, value: VoiceRequestStatus | null) => value && setStatus(value)}
+              >
+                <ToggleButton value="pending">Pending</ToggleButton>
+                <ToggleButton value="approved">Approved</ToggleButton>
+                <ToggleButton value="denied">Denied</ToggleButton>
+              </ToggleButtonGroup>
+              <Tooltip title="Refresh">
+                <span>
+                  <IconButton onClick={() => loadRequests(status)} disabled={loading} size="small">
+                    <Refresh />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          </Box>
+
+          {loading && <LinearProgress sx={{ mb: 2 }} />}
+          {error && (
+            <Alert severity="error" onClose={clearError} sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {!loading && requests.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+              No {status} requests
+            </Typography>
+          )}
+
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {requests.map(request => (
+              <Card key={request.id} variant="outlined">
+                <CardContent>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+                    <Typography variant="subtitle1" noWrap>
+                      {request.email || request.userId}
+                    </Typography>
+                    <Chip label={request.status} size="small" color={STATUS_COLORS[request.status]} variant="outlined" />
+                  </Box>
+                  <Typography variant="caption" color="text.secondary" component="div">
+                    Requested {formatDate(request.createdAt)}
+                    {request.reviewedAt && ` • Reviewed ${formatDate(request.reviewedAt)}${request.reviewedBy ? ` by ${request.reviewedBy}` : ''}`}
+                  </Typography>
+                  {request.notes && (
+                    <Typography variant="body2" sx={{ mt: 1, whiteSpace: 'pre-wrap' }}>
+                      {request.notes}
+                    </Typography>
+                  )}
+
+                  {request.status === 'pending' ? (
+                    <Box sx={{ display: 'flex', gap: 1, mt: 2, alignItems: 'flex-start' }}>
+                      <TextField
+                        label="Review notes (shown to the requester)"
+                        value={reviewNotes[request.id] || ''}
+                        onChange={(e) => setReviewNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        size="small"
+                        inputProps={{ maxLength: 1000 }}
+                        disabled={loading}
+                        fullWidth
+                      />
+                      <Button
+                        variant="contained"
+                        color="success"
+                        startIcon={<Check />}
+                        onClick={() => handleReview(request, 'approve')}
+                        disabled={loading}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outlined"
+                        color="error"
+                        startIcon={<Close />}
+                        onClick={() => handleReview(request, 'deny')}
+                        disabled={loading}
+                      >
+                        Deny
+                      </Button>
+                    </Box>
+                  ) : request.reviewNotes && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1, fontStyle: 'italic' }}>
+                      {request.reviewNotes}
+                    </Typography>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </Box>
+        </CardContent>
+      </Card>
+
+      <VoiceReviewPanel active={active} />
+    </Box>
+  );
+}
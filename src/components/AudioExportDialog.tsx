@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Slider,
+  LinearProgress,
+  Alert,
+  IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { Close } from '@mui/icons-material';
+import { HistoryItem } from '../hooks/useHistory';
+import { AudioContainer, sniffAudioContainer } from '../utils/audioFormat';
+import { DEFAULT_EXPORT_OPTIONS, ExportFormat, ExportOptions, exportAudio } from '../utils/audioExport';
+import { downloadBlob } from '../utils/download';
+
+interface AudioExportDialogProps {
+  open: boolean;
+  item: HistoryItem | null;
+  onClose: () => void;
+}
+
+const SAMPLE_RATES = [16000, 22050, 24000, 44100, 48000];
+const MP3_BITRATES = [64, 96, 128, 192, 256];
+
+/**
+ * Export dialog for history clips
+ * Downloads the original with the correct extension, or converts in the browser
+ * to WAV/MP3 with optional resampling, silence trimming and loudness normalization
+ */
+export function AudioExportDialog({ open, item, onClose }: AudioExportDialogProps) {
+  const [container, setContainer] = useState<AudioContainer | null>(null);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Detect the real container whenever a new item is opened
+  useEffect(() => {
+    if (!open || !item) return;
+    let cancelled = false;
+
+    setContainer(null);
+    setError(null);
+    sniffAudioContainer(item.blob)
+      .then(result => {
+        if (!cancelled) setContainer(result);
+      })
+      .catch(err => console.warn('[Export] Could not detect container:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, item]);
+
+  const updateOptions = (patch: Partial<ExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }));
+  };
+
+  const handleExport = async () => {
+    if (!item) return;
+
+    setExporting(true);
+    setError(null);
+    try {
+      const { blob, extension } = await exportAudio(item.blob, options);
+      downloadBlob(blob, `echo-tts-${item.voice}-${item.id}.${extension}`);
+      onClose();
+    } catch (err: unknown) {
+      console.error('[Export] Conversion failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to convert audio');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const nativeRate = container?.sampleRate || item?.sampleRate;
+  const originalLabel = container
+    ? `Original (${container.extension.toUpperCase()}${nativeRate ? `, ${nativeRate / 1000} kHz` : ''})`
+    : 'Original';
+  const processing = options.normalize || options.trimSilence || options.sampleRate !== undefined;
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">Download Audio</Typography>
+          <IconButton onClick={onClose} disabled={exporting} size="small">
+            <Close />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box display="flex" flexDirection="column" gap={2} mt={1}>
+          <ToggleButtonGroup
+            value={options.format}
+            exclusive
+            fullWidth
+            size="small"
+            onChange={(_e, value: ExportFormat | null) => value && updateOptions({ format: value })}
+            disabled={exporting}
+          >
+            <ToggleButton value="original">{originalLabel}</ToggleButton>
+            <ToggleButton value="wav">WAV</ToggleButton>
+            <ToggleButton value="mp3">MP3</ToggleButton>
+          </ToggleButtonGroup>
+
+          <FormControl size="small" fullWidth>
+            <InputLabel shrink>Sample rate</InputLabel>
+            <Select
+              value={options.sampleRate ?? ''}
+              label="Sample rate"
+              notched
+              onChange={(e) => updateOptions({ sampleRate: e.target.value === '' ? undefined : Number(e.target.value) })}
+              disabled={exporting}
+              displayEmpty
+            >
+              <MenuItem value="">Keep original{nativeRate ? ` (${nativeRate} Hz)` : ''}</MenuItem>
+              {SAMPLE_RATES.map(rate => (
+                <MenuItem key={rate} value={rate}>{rate} Hz</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {options.format === 'wav' && (
+            <FormControl size="small" fullWidth>
+              <InputLabel>Bit depth</InputLabel>
+              <Select
+                value={options.bitDepth}
+                label="Bit depth"
+                onChange={(e) => updateOptions({ bitDepth: Number(e.target.value) as 16 | 24 })}
+                disabled={exporting}
+              >
+                <MenuItem value={16}>16-bit</MenuItem>
+                <MenuItem value={24}>24-bit</MenuItem>
+              </Select>
+            </FormControl>
+          )}
+
+          {options.format === 'mp3' && (
+            <FormControl size="small" fullWidth>
+              <InputLabel>Bitrate</InputLabel>
+              <Select
+                value={options.mp3Bitrate}
+                label="Bitrate"
+                onChange={(e) => updateOptions({ mp3Bitrate: Number(e.target.value) })}
+                disabled={exporting}
+              >
+                {MP3_BITRATES.map(kbps => (
+                  <MenuItem key={kbps} value={kbps}>{kbps} kbps</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={options.trimSilence}
+                onChange={(e) => updateOptions({ trimSilence: e.target.checked })}
+                disabled={exporting}
+              />
+            }
+            label="Trim leading/trailing silence"
+          />
+
+          <Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={options.normalize}
+                  onChange={(e) => updateOptions({ normalize: e.target.checked })}
+                  disabled={exporting}
+                />
+              }
+              label={`Normalize loudness (${options.targetLoudnessDb} dBFS RMS)`}
+            />
+            {options.normalize && (
+              <Slider
+                value={options.targetLoudnessDb}
+                min={-30}
+                max={-10}
+                step={1}
+                marks={[{ value: -23, label: '-23' }, { value: -16, label: '-16' }]}
+                onChange={(_e, value) => updateOptions({ targetLoudnessDb: value as number })}
+                disabled={exporting}
+                sx={{ mx: 1, width: 'calc(100% - 16px)' }}
+              />
+            )}
+          </Box>
+
+          {options.format === 'original' && processing && (
+            <Typography variant="caption" color="text.secondary">
+              Processed audio is saved as 16-bit WAV.
+            </Typography>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+          {exporting && <LinearProgress />}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} disabled={exporting}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleExport} disabled={!item || exporting}>
+          {exporting ? 'Converting...' : 'Download'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import {
+  Box,
+  Button,
+  Typography,
+  LinearProgress,
+  Alert,
+  Paper,
+} from '@mui/material';
+import { CheckCircle, Warning, Error as ErrorIcon, AutoFixHigh } from '@mui/icons-material';
+import { AudioAnalysis, QualityLevel } from '../utils/audioQuality';
+
+interface AudioQualityReportProps {
+  analysis: AudioAnalysis | null;
+  analyzing: boolean;
+  error: string | null;
+  onApplyFixes: () => void; // Trim silence + normalize the selected file
+  fixing: boolean;
+  fixed: boolean;           // The selected file is already the cleaned version
+  disabled?: boolean;
+}
+
+const LEVEL_ICONS: Record<QualityLevel, JSX.Element> = {
+  pass: <CheckCircle fontSize="small" color="success" />,
+  warn: <Warning fontSize="small" color="warning" />,
+  fail: <ErrorIcon fontSize="small" color="error" />,
+};
+
+const SUMMARY: Record<QualityLevel, { severity: 'success' | 'warning' | 'error'; text: string }> = {
+  pass: { severity: 'success', text: 'This reference looks good for cloning.' },
+  warn: { severity: 'warning', text: 'This reference may produce a weaker clone.' },
+  fail: { severity: 'error', text: 'This reference is likely to produce a bad clone.' },
+};
+
+/**
+ * Quality report for a reference clip: duration, level, clipping, SNR and silence
+ * with pass/warn/fail grading and a one-click trim + normalize
+ */
+export function AudioQualityReport({
+  analysis,
+  analyzing,
+  error,
+  onApplyFixes,
+  fixing,
+  fixed,
+  disabled = false
+}: AudioQualityReportProps) {
+  if (analyzing) {
+    return (
+      <Box>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Analyzing audio quality...
+        </Typography>
+        <LinearProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="warning">{error}</Alert>;
+  }
+
+  if (!analysis) return null;
+
+  const summary = SUMMARY[analysis.overall];
+  // Trimming and normalizing only help with level and silence problems
+  const canFix = !fixed && analysis.checks.some(c => (c.id === 'level' || c.id === 'silence') && c.level !== 'pass');
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Alert
+        severity={summary.severity}
+        sx={{ mb: 1.5 }}
+        action={canFix && (
+          <Button
+            color="inherit"
+            size="small"
+            startIcon={<AutoFixHigh />}
+            onClick={onApplyFixes}
+            disabled={fixing || disabled}
+          >
+            {fixing ? 'Fixing...' : 'Trim & Normalize'}
+          </Button>
+        )}
+      >
+        {summary.text}
+        {fixed && ' (silence trimmed and loudness normalized)'}
+      </Alert>
+
+      <Box display="flex" flexDirection="column" gap={1}>
+        {analysis.checks.map(check => (
+          <Box key={check.id} display="flex" gap={1} alignItems="flex-start">
+            {LEVEL_ICONS[check.level]}
+            <Box flex={1} minWidth={0}>
+              <Box display="flex" justifyContent="space-between" gap={1}>
+                <Typography variant="body2">{check.label}</Typography>
+                <Typography variant="body2" color="text.secondary" noWrap>
+                  {check.value}
+                </Typography>
+              </Box>
+              {check.level !== 'pass' && check.hint && (
+                <Typography variant="caption" color="text.secondary">
+                  {check.hint}
+                </Typography>
+              )}
+            </Box>
+          </Box>
+        ))}
+      </Box>
+    </Paper>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Alert, AlertTitle, Box, Button, TextField, Typography } from '@mui/material';
+import { VoiceRequest } from '../hooks/useVoiceRequests';
+import { UserRole } from '../contexts/AuthContext';
+
+interface CreatorAccessRequestProps {
+  request: VoiceRequest | null;
+  role: UserRole | null;
+  onRequest: (notes: string) => Promise<boolean>;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Request flow for creator access, shown to signed-in users who cannot create voices yet
+ * Displays the state of the latest request (pending / denied) or a form to submit one
+ */
+export function CreatorAccessRequest({ request, role, onRequest, loading, error }: CreatorAccessRequestProps) {
+  const [formOpen, setFormOpen] = useState(false);
+  const [notes, setNotes] = useState('');
+
+  const handleSubmit = async () => {
+    if (await onRequest(notes.trim())) {
+      setFormOpen(false);
+      setNotes('');
+    }
+  };
+
+  if (request?.status === 'pending' || role === 'voice_creator_pending') {
+    return (
+      <Alert severity="info" sx={{ mb: 2 }}>
+        Creator access requested{request ? ` on ${new Date(request.createdAt).toLocaleDateString()}` : ''}.
+        You can create voices as soon as an admin approves it.
+      </Alert>
+    );
+  }
+
+  if (formOpen) {
+    return (
+      <Box sx={{ mb: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+        <TextField
+          label="Why do you need creator access? (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          multiline
+          rows={2}
+          size="small"
+          inputProps={{ maxLength: 1000 }}
+          disabled={loading}
+          fullWidth
+        />
+        {error && <Alert severity="error">{error}</Alert>}
+        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+          <Button size="small" onClick={() => setFormOpen(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button size="small" variant="contained" onClick={handleSubmit} disabled={loading}>
+            {loading ? 'Submitting...' : 'Submit Request'}
+          </Button>
+        </Box>
+      </Box>
+    );
+  }
+
+  const denied = request?.status === 'denied';
+
+  return (
+    <Alert
+      severity={denied ? 'warning' : 'info'}
+      sx={{ mb: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={() => setFormOpen(true)}>
+          {denied ? 'Request Again' : 'Request Access'}
+        </Button>
+      }
+    >
+      {denied ? (
+        <>
+          <AlertTitle>Creator access request denied</AlertTitle>
+          {request?.reviewNotes && (
+            <Typography variant="body2">{request.reviewNotes}</Typography>
+          )}
+        </>
+      ) : (
+        'Creating voices requires creator access, granted by an admin.'
+      )}
+    </Alert>
+  );
+}
@@ -0,0 +1,380 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Paper,
+  Button,
+  LinearProgress,
+  Collapse,
+  InputAdornment,
+} from '@mui/material';
+import { PlayArrow, Pause, Delete, Download, Search, Tune, Replay } from '@mui/icons-material';
+import {
+  HistoryItem,
+  HistoryFilters,
+  EvictionPolicy,
+  EvictionStrategy,
+  LibraryStats,
+  StorageEstimate,
+} from '../hooks/useHistory';
+
+interface HistoryLibraryProps {
+  items: HistoryItem[];
+  objectUrls: Record<string, string>;
+  playingId: string | null;
+  isLoading: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onPlay: (item: HistoryItem) => void;
+  onDownload: (id: string) => void;
+  onDelete: (id: string) => void;
+  onRegenerate: (item: HistoryItem) => void;
+  filters: HistoryFilters;
+  onFiltersChange: (filters: HistoryFilters) => void;
+  stats: LibraryStats;
+  storage: StorageEstimate | null;
+  evictionPolicy: EvictionPolicy;
+  onEvictionPolicyChange: (policy: EvictionPolicy) => void;
+  getServiceLabel: (serviceId: string) => string;
+}
+
+const MODE_LABELS: Record<string, string> = {
+  batch: 'Batch',
+  stream: 'Streamed',
+  'long-form': 'Long-form',
+};
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, '0')}`;
+};
+
+// "audio/mpeg" -> "MPEG", "audio/wav" -> "WAV"
+const formatMimeType = (mimeType: string): string => mimeType.replace(/^audio\//, '').split(';')[0].toUpperCase();
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// <input type="date"> works with YYYY-MM-DD in local time
+const toDateInput = (timestamp?: number): string => {
+  if (timestamp === undefined) return '';
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+};
+
+/**
+ * Searchable, paginated TTS history library with storage usage and eviction settings
+ */
+export function HistoryLibrary({
+  items,
+  objectUrls,
+  playingId,
+  isLoading,
+  hasMore,
+  onLoadMore,
+  onPlay,
+  onDownload,
+  onDelete,
+  onRegenerate,
+  filters,
+  onFiltersChange,
+  stats,
+  storage,
+  evictionPolicy,
+  onEvictionPolicyChange,
+  getServiceLabel,
+}: HistoryLibraryProps) {
+  const [search, setSearch] = useState(filters.search || '');
+  const [showSettings, setShowSettings] = useState(false);
+  // Limits are edited locally and applied on blur, so typing "500" never evicts down to 5 first
+  const [limitDraft, setLimitDraft] = useState({
+    maxItems: String(evictionPolicy.maxItems),
+    maxMegabytes: String(evictionPolicy.maxMegabytes),
+  });
+
+  useEffect(() => {
+    setLimitDraft({
+      maxItems: String(evictionPolicy.maxItems),
+      maxMegabytes: String(evictionPolicy.maxMegabytes),
+    });
+  }, [evictionPolicy.maxItems, evictionPolicy.maxMegabytes]);
+
+  const applyLimits = () => {
+    const maxItems = Math.max(1, Number(limitDraft.maxItems) || evictionPolicy.maxItems);
+    const maxMegabytes = Math.max(1, Number(limitDraft.maxMegabytes) || evictionPolicy.maxMegabytes);
+    if (maxItems !== evictionPolicy.maxItems || maxMegabytes !== evictionPolicy.maxMegabytes) {
+      onEvictionPolicyChange({ ...evictionPolicy, maxItems, maxMegabytes });
+    } else {
+      setLimitDraft({ maxItems: String(maxItems), maxMegabytes: String(maxMegabytes) });
+    }
+  };
+
+  // Debounce the search box so typing doesn't re-query on every keystroke
+  useEffect(() => {
+    if ((filters.search || '') === search) return;
+    const timer = setTimeout(() => onFiltersChange({ ...filters, search: search || undefined }), 300);
+    return () => clearTimeout(timer);
+  }, [search, filters, onFiltersChange]);
+
+  const hasFilters = !!(filters.search || filters.voice || filters.serviceId || filters.from || filters.to);
+  const usagePercent = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+        <Typography variant="h6">History</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            {stats.count} clip{stats.count === 1 ? '' : 's'} • {formatBytes(stats.bytes)}
+          </Typography>
+          <IconButton size="small" onClick={() => setShowSettings(prev => !prev)} title="Storage settings">
+            <Tune fontSize="small" />
+          </IconButton>
+        </Box>
+      </Box>
+
+      <Collapse in={showSettings}>
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          {storage && storage.quota > 0 && (
+            <Box sx={{ mb: 2 }}>
+              <LinearProgress
+                variant="determinate"
+                value={usagePercent}
+                color={usagePercent > 90 ? 'error' : usagePercent > 70 ? 'warning' : 'primary'}
+              />
+              <Typography variant="caption" color="text.secondary">
+                Browser storage: {formatBytes(storage.usage)} of {formatBytes(storage.quota)} ({usagePercent.toFixed(1)}%)
+              </Typography>
+            </Box>
+          )}
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>Eviction policy</InputLabel>
+              <Select
+                value={evictionPolicy.strategy}
+                label="Eviction policy"
+                onChange={(e) => onEvictionPolicyChange({ ...evictionPolicy, strategy: e.target.value as EvictionStrategy })}
+              >
+                <MenuItem value="none">Keep everything</MenuItem>
+                <MenuItem value="oldest-first">Oldest first</MenuItem>
+                <MenuItem value="size-based">Largest first</MenuItem>
+              </Select>
+            </FormControl>
+            {evictionPolicy.strategy === 'oldest-first' && (
+              <TextField
+                label="Max clips"
+                type="number"
+                size="small"
+                value={limitDraft.maxItems}
+                onChange={(e) => setLimitDraft(prev => ({ ...prev, maxItems: e.target.value }))}
+                onBlur={applyLimits}
+                sx={{ width: 120 }}
+              />
+            )}
+            {evictionPolicy.strategy !== 'none' && (
+              <TextField
+                label="Max size (MB)"
+                type="number"
+                size="small"
+                value={limitDraft.maxMegabytes}
+                onChange={(e) => setLimitDraft(prev => ({ ...prev, maxMegabytes: e.target.value }))}
+                onBlur={applyLimits}
+                sx={{ width: 140 }}
+              />
+            )}
+          </Box>
+        </Paper>
+      </Collapse>
+
+      {/* Search & Filters */}
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <TextField
+          size="small"
+          placeholder="Search prompts..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          sx={{ flexGrow: 1, minWidth: 200 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search fontSize="small" />
+              </InputAdornment>
+            ),
+          }}
+        />
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Voice</InputLabel>
+          <Select
+            value={filters.voice || ''}
+            label="Voice"
+            onChange={(e) => onFiltersChange({ ...filters, voice: e.target.value || undefined })}
+          >
+            <MenuItem value="">All voices</MenuItem>
+            {stats.voices.map(v => (
+              <MenuItem key={v} value={v}>{v}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Service</InputLabel>
+          <Select
+            value={filters.serviceId || ''}
+            label="Service"
+            onChange={(e) => onFiltersChange({ ...filters, serviceId: e.target.value || undefined })}
+          >
+            <MenuItem value="">All services</MenuItem>
+            {stats.services.map(s => (
+              <MenuItem key={s} value={s}>{getServiceLabel(s)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={toDateInput(filters.from)}
+          onChange={(e) => onFiltersChange({ ...filters, from: fromDateInput(e.target.value, false) })}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={toDateInput(filters.to)}
+          onChange={(e) => onFiltersChange({ ...filters, to: fromDateInput(e.target.value, true) })}
+          InputLabelProps={{ shrink: true }}
+        />
+        {hasFilters && (
+          <Button
+            size="small"
+            onClick={() => {
+              setSearch('');
+              onFiltersChange({});
+            }}
+          >
+            Reset
+          </Button>
+        )}
+      </Box>
+
+      <Paper elevation={2}>
+        {isLoading && <LinearProgress />}
+        <List>
+          {items.length === 0 && !isLoading && (
+            <ListItem>
+              <ListItemText
+                primary={hasFilters ? 'No matching clips.' : 'No history yet.'}
+                secondary={hasFilters ? 'Try a different search or filter.' : 'Generated audio will appear here.'}
+              />
+            </ListItem>
+          )}
+          {items.map((item) => (
+            <ListItem
+              key={item.id}
+              divider
+              sx={{ pr: { xs: 22, sm: 23 } }}
+            >
+              <ListItemText
+                primary={
+                  <Typography
+                    variant="body1"
+                    noWrap
+                    sx={{
+                      pr: 1,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis'
+                    }}
+                  >
+                    {item.text}
+                  </Typography>
+                }
+                secondary={
+                  <>
+                    <Typography variant="body2" color="text.secondary" component="span" display="block" noWrap>
+                      {[
+                        item.voice,
+                        item.serviceId ? getServiceLabel(item.serviceId) : null,
+                        item.mode ? MODE_LABELS[item.mode] : null,
+                        new Date(item.timestamp).toLocaleString(),
+                      ].filter(Boolean).join(' • ')}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" component="span" display="block" noWrap>
+                      {[
+                        item.duration !== undefined ? formatDuration(item.duration) : null,
+                        item.sampleRate ? `${(item.sampleRate / 1000).toFixed(item.sampleRate % 1000 ? 1 : 0)} kHz` : null,
+                        item.responseFormat ? formatMimeType(item.responseFormat) : null,
+                        formatBytes(item.blob.size),
+                        item.latencyMs !== undefined ? `${(item.latencyMs / 1000).toFixed(1)}s to generate` : null,
+                        item.model,
+                      ].filter(Boolean).join(' • ')}
+                    </Typography>
+                  </>
+                }
+                sx={{ pr: 1 }}
+              />
+              <ListItemSecondaryAction>
+                <IconButton
+                  onClick={() => onPlay(item)}
+                  size="small"
+                  disabled={!objectUrls[item.id]}
+                >
+                  {playingId === item.id ? <Pause /> : <PlayArrow />}
+                </IconButton>
+                <IconButton
+                  onClick={() => onRegenerate(item)}
+                  size="small"
+                  title="Regenerate with same settings"
+                >
+                  <Replay />
+                </IconButton>
+                <IconButton
+                  onClick={() => onDownload(item.id)}
+                  size="small"
+                >
+                  <Download />
+                </IconButton>
+                <IconButton
+                  edge="end"
+                  onClick={() => onDelete(item.id)}
+                  size="small"
+                >
+                  <Delete />
+                </IconButton>
+              </ListItemSecondaryAction>
+            </ListItem>
+          ))}
+        </List>
+        {hasMore && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', pb: 2 }}>
+            <Button onClick={onLoadMore} disabled={isLoading}>
+              Load more
+            </Button>
+          </Box>
+        )}
+      </Paper>
+    </Box>
+  );
+}
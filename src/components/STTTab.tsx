@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import {
   Box,
   Button,
@@ -11,28 +11,74 @@ import {
   IconButton,
   Paper,
   Alert,
+  Chip,
+  TextField,
 } from '@mui/material';
 import {
   CloudUpload,
   ContentCopy,
   Download,
+  Edit,
+  Check,
 } from '@mui/icons-material';
 import { useSTT } from '../hooks/useSTT';
 import { useFileUpload } from '../hooks/useFileUpload';
+import { useTranscriptEdits, loadTranscriptEdits } from '../hooks/useTranscriptEdits';
+import { useTranscriptionHistory, TranscriptionRecord } from '../hooks/useTranscriptionHistory';
+import { TranscriptionHistory } from './TranscriptionHistory';
+import { TranscriptPlayer } from './TranscriptPlayer';
+import { TranscriptEditor } from './TranscriptEditor';
+import { downloadBlob } from '../utils/download';
+import { TranscriptTimestamps, SubtitleOptions, DEFAULT_SUBTITLE_OPTIONS } from '../utils/subtitles';
+import {
+  ExportFormat,
+  createTranscriptExport,
+  formatTranscriptText,
+  hasTranscriptTimestamps,
+} from '../utils/transcriptExport';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
 
 interface TranscriptionData {
+  uuid: string; // Upload UUID; local edits are stored under it
   text: string;
-  timestamps?: {
-    word?: Array<{ start: number; end: number; text: string }>;
-    segment?: Array<{ start: number; end: number; segment: string }>;
-  };
+  timestamps?: TranscriptTimestamps;
+  file: File | null; // Source audio for the player; not available for a job resumed after a reload
+  filename: string;
 }
 
+const JOB_STATUS_LABELS = {
+  queued: 'Waiting for a transcription worker...',
+  running: 'Transcribing audio...',
+  completed: 'Done',
+  failed: 'Failed',
+};
+
+// Fallback for jobs resumed after a reload, when the file's duration is gone
+const lastTimestamp = (timestamps?: TranscriptTimestamps): number | undefined => {
+  const ends = [...(timestamps?.segment || []), ...(timestamps?.word || [])].map(item => item.end);
+  return ends.length > 0 ? Math.max(...ends) : undefined;
+};
+
+const formatElapsed = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
 export function STTTab() {
-  const { loading: sttLoading, error: sttError, getPresignedUrl, transcribe, clearError } = useSTT();
+  const {
+    loading: sttLoading,
+    error: sttError,
+    job,
+    pendingJob,
+    getPresignedUrl,
+    transcribe,
+    waitForJob,
+    stopWaiting,
+    discardPendingJob,
+    clearError,
+  } = useSTT();
   const { validateFile, uploadToS3, getDuration } = useFileUpload();
 
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedDuration, setSelectedDuration] = useState<number | undefined>(undefined);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isTranscribing, setIsTranscribing] = useState(false);
@@ -41,35 +87,103 @@ export function STTTab() {
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  const [subtitleOptions, setSubtitleOptions] = useState<SubtitleOptions>(DEFAULT_SUBTITLE_OPTIONS);
+  const [editing, setEditing] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  // Edited version when there is one; copy, exports and the player all use it
+  const {
+    transcript,
+    isEdited,
+    saveEdits,
+    resetEdits,
+    error: editsError,
+    clearError: clearEditsError,
+  } = useTranscriptEdits(transcription?.uuid ?? null, transcription);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const {
+    items: historyItems,
+    isLoading: historyLoading,
+    addItem: addHistoryItem,
+    renameItem: renameHistoryItem,
+    removeItem: removeHistoryItem,
+  } = useTranscriptionHistory();
+
   const loading = sttLoading || isUploading || isTranscribing;
 
-  /**
-   * Format timestamp to MM:SS.s
-   */
-  const formatTimestamp = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = (seconds % 60).toFixed(1);
-    return `${String(mins).padStart(2, '0')}:${secs.padStart(4, '0')}`;
+  const showTranscription = (data: TranscriptionData, withTimestamps: boolean, duration?: number) => {
+    setTranscription(data);
+    addHistoryItem({
+      id: data.uuid,
+      name: data.filename || data.uuid,
+      filename: data.filename,
+      duration: duration ?? lastTimestamp(data.timestamps),
+      includeTimestamps: withTimestamps,
+      text: data.text,
+      timestamps: data.timestamps,
+      timestamp: Date.now(),
+    });
+  };
+
+  // Pick up a job that was still running when the page was closed or reloaded
+  useEffect(() => {
+    if (!pendingJob) return;
+    const resumed = pendingJob;
+    let cancelled = false;
+
+    console.log(`[STT] Resuming job ${resumed.jobId} for ${resumed.filename || resumed.uuid}`);
+    setIsTranscribing(true);
+    setIncludeTimestamps(resumed.includeTimestamps);
+
+    waitForJob(resumed.jobId)
+      .then(result => {
+        if (cancelled) return;
+        showTranscription({
+          uuid: resumed.uuid,
+          text: result.text,
+          timestamps: result.timestamps,
+          file: null,
+          filename: resumed.filename,
+        }, resumed.includeTimestamps);
+      })
+      .catch(() => {
+        // The hook reports the error
+      })
+      .finally(() => {
+        if (!cancelled) setIsTranscribing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stopWaiting();
+    };
+    // Only on mount; later jobs are followed by handleTranscribe
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Elapsed time since the job was submitted, for long recordings
+  useEffect(() => {
+    if (!isTranscribing) return;
+    const submittedAt = pendingJob?.submittedAt ?? Date.now();
+    const update = () => setElapsed((Date.now() - submittedAt) / 1000);
+    update();
+    const timer = window.setInterval(update, 1000);
+    return () => window.clearInterval(timer);
+  }, [isTranscribing, pendingJob]);
+
+  const handleDismissJob = () => {
+    discardPendingJob();
+    setIsTranscribing(false);
   };
 
   /**
    * Format transcription with timestamps
    */
-  const formatTranscriptionText = (): string => {
-    if (!transcription) return '';
-
-    if (!includeTimestamps || !transcription.timestamps?.segment) {
-      return transcription.text;
-    }
-
-    // Format with segment timestamps
-    return transcription.timestamps.segment
-      .map((seg) => `[${formatTimestamp(seg.start)} - ${formatTimestamp(seg.end)}] ${seg.segment}`)
-      .join('\n');
-  };
+  const formatTranscriptionText = (): string =>
+    transcript ? formatTranscriptText(transcript, includeTimestamps) : '';
 
   /**
    * Handle file selection
@@ -79,6 +193,7 @@ export function STTTab() {
       clearError();
       setError(null);
       setTranscription(null);
+      setEditing(false);
 
       // Validate file type and size
       const validation = validateFile(file);
@@ -88,8 +203,9 @@ export function STTTab() {
       }
 
       // Check duration
+      let duration: number | undefined;
       try {
-        const duration = await getDuration(file);
+        duration = await getDuration(file);
         if (duration > 30 * 60) {
           setError('Audio exceeds 30-minute limit. Please use a shorter file.');
           return;
@@ -100,6 +216,7 @@ export function STTTab() {
       }
 
       setSelectedFile(file);
+      setSelectedDuration(duration);
     },
     [validateFile, getDuration, clearError]
   );
@@ -159,17 +276,25 @@ export function STTTab() {
 
       // Step 3: Transcribe
       setIsTranscribing(true);
-      const result = await transcribe(uuid, includeTimestamps);
+      const file = selectedFile;
+      const duration = selectedDuration;
+      const withTimestamps = includeTimestamps;
+      const result = await transcribe(uuid, withTimestamps, file.name);
 
       if (result.success) {
-        setTranscription({
+        showTranscription({
+          uuid,
           text: result.text,
           timestamps: result.timestamps,
-        });
+          file,
+          filename: file.name,
+        }, withTimestamps, duration);
       } else {
         throw new Error('Transcription failed');
       }
     } catch (err) {
+      // Dismissed: the job was let go on purpose
+      if (err instanceof DOMException && err.name === 'AbortError') return;
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       setError(errorMessage);
     } finally {
@@ -202,20 +327,62 @@ export function STTTab() {
     }
   };
 
+  const hasTimestamps = !!transcript && hasTranscriptTimestamps(transcript);
+
+  /**
+   * Download in the chosen format
+   */
+  const handleDownload = (format: ExportFormat) => {
+    if (!transcript) return;
+    const blob = createTranscriptExport(format, transcript, { withTimestamps: includeTimestamps, subtitleOptions });
+    downloadBlob(blob, `transcription-${Date.now()}.${format}`);
+  };
+
   /**
-   * Download as .txt
+   * Reopen a saved transcription in the result view (without audio)
    */
-  const handleDownload = () => {
-    const textToDownload = formatTranscriptionText();
-    const blob = new Blob([textToDownload], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `transcription-${Date.now()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleOpenHistory = (record: TranscriptionRecord) => {
+    setEditing(false);
+    setIncludeTimestamps(record.includeTimestamps);
+    setTranscription({
+      uuid: record.id,
+      text: record.text,
+      timestamps: record.timestamps,
+      file: null,
+      filename: record.filename,
+    });
+  };
+
+  /**
+   * Download a saved transcription, including any local edits
+   */
+  const handleExportHistory = async (record: TranscriptionRecord, format: ExportFormat) => {
+    let edited = null;
+    try {
+      edited = await loadTranscriptEdits(record.id);
+    } catch (err) {
+      console.error('[STT] Failed to load transcript edits:', err);
+    }
+    const blob = createTranscriptExport(format, edited || record, {
+      withTimestamps: record.includeTimestamps,
+      subtitleOptions,
+    });
+    const baseName = record.name.replace(/\.[^.]+$/, '') || 'transcription';
+    downloadBlob(blob, `${baseName}.${format}`);
+  };
+
+  const handleDeleteHistory = (id: string) => {
+    if (transcription?.uuid === id) {
+      setTranscription(null);
+      setEditing(false);
+    }
+    removeHistoryItem(id);
+  };
+
+  const updateSubtitleOption = (key: 'maxLineLength' | 'maxCueDuration', value: string, min: number, max: number) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || value === '') return;
+    setSubtitleOptions(prev => ({ ...prev, [key]: Math.min(max, Math.max(min, parsed)) }));
   };
 
   return (
@@ -321,9 +488,23 @@ export function STTTab() {
 
           {isTranscribing && (
             <Box sx={{ mt: 2 }}>
-              <LinearProgress />
-              <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
-                Transcribing audio...
+              <LinearProgress
+                variant={job?.progress != null ? 'determinate' : 'indeterminate'}
+                value={(job?.progress ?? 0) * 100}
+              />
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+                <Typography variant="caption" color="text.secondary">
+                  {!selectedFile && pendingJob?.filename && `${pendingJob.filename}: `}
+                  {job ? JOB_STATUS_LABELS[job.status] : 'Submitting...'}
+                  {job?.progress != null && ` ${Math.round(job.progress * 100)}%`}
+                  {` (${formatElapsed(elapsed)})`}
+                </Typography>
+                <Button size="small" onClick={handleDismissJob} title="Stop waiting for this transcription">
+                  Dismiss
+                </Button>
+              </Box>
+              <Typography variant="caption" color="text.secondary" display="block">
+                Long recordings can take several minutes. You can reload or come back later; the result will be picked up.
               </Typography>
             </Box>
           )}
@@ -345,37 +526,119 @@ export function STTTab() {
       </Card>
 
       {/* Transcription Result */}
-      {transcription && (
+      {transcription && transcript && (
         <Card>
           <CardContent>
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-              <Typography variant="h6">Transcription Result</Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="h6">Transcription Result</Typography>
+                {isEdited && <Chip label="Edited" size="small" color="primary" variant="outlined" />}
+              </Box>
               <Box>
+                <IconButton onClick={() => setEditing(prev => !prev)} title={editing ? 'Done editing' : 'Edit transcript'}>
+                  {editing ? <Check /> : <Edit />}
+                </IconButton>
                 <IconButton onClick={handleCopy} title="Copy to clipboard">
                   <ContentCopy />
                 </IconButton>
-                <IconButton onClick={handleDownload} title="Download as .txt">
+                <IconButton onClick={(e) => setExportAnchor(e.currentTarget)} title="Download">
                   <Download />
                 </IconButton>
+                <TranscriptExportMenu
+                  anchorEl={exportAnchor}
+                  onClose={() => setExportAnchor(null)}
+                  hasTimestamps={hasTimestamps}
+                  onSelect={handleDownload}
+                />
               </Box>
             </Box>
 
-            <Paper
-              sx={{
-                p: 2,
-                bgcolor: 'background.default',
-                maxHeight: 400,
-                overflow: 'auto',
-                fontFamily: 'monospace',
-                whiteSpace: 'pre-wrap',
-                wordBreak: 'break-word',
-              }}
-            >
-              {formatTranscriptionText()}
-            </Paper>
+            {/* Subtitle settings for SRT/WebVTT */}
+            {hasTimestamps && (
+              <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+                <Typography variant="body2" color="text.secondary">
+                  Subtitles:
+                </Typography>
+                <TextField
+                  label="Max line length"
+                  type="number"
+                  size="small"
+                  value={subtitleOptions.maxLineLength}
+                  onChange={(e) => updateSubtitleOption('maxLineLength', e.target.value, 10, 200)}
+                  inputProps={{ min: 10, max: 200 }}
+                  helperText="Characters, 2 lines per cue"
+                  sx={{ width: 170 }}
+                />
+                <TextField
+                  label="Max cue duration"
+                  type="number"
+                  size="small"
+                  value={subtitleOptions.maxCueDuration}
+                  onChange={(e) => updateSubtitleOption('maxCueDuration', e.target.value, 1, 30)}
+                  inputProps={{ min: 1, max: 30, step: 0.5 }}
+                  helperText="Seconds"
+                  sx={{ width: 170 }}
+                />
+              </Box>
+            )}
+
+            {editsError && (
+              <Alert severity="warning" onClose={clearEditsError} sx={{ mb: 2 }}>
+                {editsError}
+              </Alert>
+            )}
+
+            {transcription.file ? (
+              <TranscriptPlayer file={transcription.file} timestamps={transcript.timestamps} showTranscript={!editing} />
+            ) : (
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+                {transcription.filename || 'Audio'} is not loaded in this session, so playback is unavailable.
+              </Typography>
+            )}
+
+            {editing && (
+              <TranscriptEditor
+                transcript={transcript}
+                onChange={saveEdits}
+                isEdited={isEdited}
+                onReset={resetEdits}
+              />
+            )}
+
+            {/* Without timestamps or audio there is nothing to sync, so show the plain text */}
+            {!editing && (!hasTimestamps || !transcription.file) && (
+              <Paper
+                sx={{
+                  p: 2,
+                  bgcolor: 'background.default',
+                  maxHeight: 400,
+                  overflow: 'auto',
+                  fontFamily: 'monospace',
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word',
+                }}
+              >
+                {formatTranscriptionText()}
+              </Paper>
+            )}
           </CardContent>
         </Card>
       )}
+
+      {/* Saved transcriptions */}
+      <Card sx={{ mt: 3 }}>
+        <CardContent>
+          <TranscriptionHistory
+            items={historyItems}
+            isLoading={historyLoading}
+            activeId={transcription?.uuid ?? null}
+            onOpen={handleOpenHistory}
+            onExport={handleExportHistory}
+            onRename={renameHistoryItem}
+            onDelete={handleDeleteHistory}
+          />
+        </CardContent>
+      </Card>
     </Box>
   );
 }
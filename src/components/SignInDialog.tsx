@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  IconButton,
+  Link,
+} from '@mui/material';
+import { Close } from '@mui/icons-material';
+
+interface SignInDialogProps {
+  open: boolean;
+  onClose: () => void;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
+}
+
+/**
+ * Email/password sign-in dialog backed by Supabase auth
+ * Also lets new users create an account
+ */
+export function SignInDialog({ open, onClose, signIn, signUp }: SignInDialogProps) {
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!open) {
+      setMode('sign-in');
+      setPassword('');
+      setError(null);
+      setInfo(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      if (mode === 'sign-in') {
+        await signIn(email.trim(), password);
+        onClose();
+      } else {
+        await signUp(email.trim(), password);
+        setInfo('Account created. Check your inbox if email confirmation is enabled, then sign in.');
+        setMode('sign-in');
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Authentication failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isSignIn = mode === 'sign-in';
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <Box component="form" onSubmit={handleSubmit}>
+        <DialogTitle>
+          <Box display="flex" alignItems="center" justifyContent="space-between">
+            <Typography variant="h6">{isSignIn ? 'Sign In' : 'Create Account'}</Typography>
+            <IconButton onClick={onClose} disabled={submitting} size="small">
+              <Close />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <TextField
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={submitting}
+              autoComplete="email"
+              autoFocus
+              required
+              fullWidth
+            />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={submitting}
+              autoComplete={isSignIn ? 'current-password' : 'new-password'}
+              inputProps={{ minLength: 6 }}
+              required
+              fullWidth
+            />
+
+            {error && <Alert severity="error">{error}</Alert>}
+            {info && <Alert severity="success">{info}</Alert>}
+
+            <Typography variant="body2" color="text.secondary">
+              {isSignIn ? 'No account yet? ' : 'Already have an account? '}
+              <Link
+                component="button"
+                type="button"
+                onClick={() => {
+                  setMode(isSignIn ? 'sign-up' : 'sign-in');
+                  setError(null);
+                }}
+                disabled={submitting}
+              >
+                {isSignIn ? 'Create one' : 'Sign in'}
+              </Link>
+            </Typography>
+          </Box>
+        </DialogContent>
+
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={submitting || !email || !password}>
+            {submitting ? 'Please wait...' : isSignIn ? 'Sign In' : 'Create Account'}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+}
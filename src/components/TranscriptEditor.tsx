@@ -0,0 +1,211 @@
+import { useState, useMemo, useRef } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  IconButton,
+  Tooltip,
+  Paper,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { CallSplit, MergeType, FindReplace, RestartAlt } from '@mui/icons-material';
+import {
+  Transcript,
+  EditableTranscript,
+  EditableSegment,
+  FindOptions,
+  toEditable,
+  fromEditable,
+  updateSegmentText,
+  mergeSegments,
+  splitSegment,
+  countWordsBefore,
+  countMatches,
+  replaceAll,
+} from '../utils/transcriptEdits';
+
+interface TranscriptEditorProps {
+  transcript: Transcript;
+  onChange: (transcript: Transcript) => void;
+  isEdited: boolean;
+  onReset: () => void; // Discard all edits and go back to the STT output
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1);
+  return `${mins}:${secs.padStart(4, '0')}`;
+};
+
+interface SegmentEditorProps {
+  segment: EditableSegment;
+  index: number;
+  timed: boolean;
+  canMerge: boolean;
+  onCommit: (index: number, text: string) => void;
+  onSplit: (index: number, text: string, cursor: number) => void;
+  onMerge: (index: number) => void;
+}
+
+function SegmentEditor({ segment, index, timed, canMerge, onCommit, onSplit, onMerge }: SegmentEditorProps) {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', py: 0.5 }}>
+      {timed && (
+        <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace', pt: 1, width: 110, flexShrink: 0 }}>
+          {formatTime(segment.start)} – {formatTime(segment.end)}
+        </Typography>
+      )}
+      <TextField
+        // Remount when the text changes outside this field (find/replace, merge, reset)
+        key={segment.text}
+        defaultValue={segment.text}
+        inputRef={inputRef}
+        onBlur={(e) => {
+          if (e.target.value !== segment.text) onCommit(index, e.target.value);
+        }}
+        size="small"
+        multiline
+        fullWidth
+        minRows={timed ? 1 : 6}
+      />
+      {timed && (
+        <Box sx={{ display: 'flex', flexShrink: 0 }}>
+          <Tooltip title="Split at cursor">
+            <IconButton
+              size="small"
+              // Keep focus so the cursor position is still readable on click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                const input = inputRef.current;
+                if (input) onSplit(index, input.value, input.selectionStart ?? 0);
+              }}
+            >
+              <CallSplit fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Merge with next segment">
+            <span>
+              <IconButton size="small" onClick={() => onMerge(index)} disabled={!canMerge}>
+                <MergeType fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Editor for correcting a transcription: per-segment text edits, split/merge and
+ * find-and-replace, with word timestamps re-aligned so subtitle exports stay in sync
+ */
+export function TranscriptEditor({ transcript, onChange, isEdited, onReset }: TranscriptEditorProps) {
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [findOptions, setFindOptions] = useState<FindOptions>({ matchCase: false, wholeWord: false });
+  const [replacedCount, setReplacedCount] = useState<number | null>(null);
+
+  const editable = useMemo(() => toEditable(transcript), [transcript]);
+  const matchCount = useMemo(() => countMatches(editable, find, findOptions), [editable, find, findOptions]);
+
+  const apply = (next: EditableTranscript) => onChange(fromEditable(next));
+
+  const handleCommit = (index: number, text: string) => {
+    apply(updateSegmentText(editable, index, text));
+  };
+
+  const handleSplit = (index: number, text: string, cursor: number) => {
+    // Commit pending typing first; the word count survives whitespace normalization
+    const committed = text !== editable.segments[index].text ? updateSegmentText(editable, index, text) : editable;
+    apply(splitSegment(committed, index, countWordsBefore(text, cursor)));
+  };
+
+  const handleMerge = (index: number) => {
+    apply(mergeSegments(editable, index));
+  };
+
+  const handleReplaceAll = () => {
+    const { transcript: next, count } = replaceAll(editable, find, replacement, findOptions);
+    setReplacedCount(count);
+    if (count > 0) apply(next);
+  };
+
+  const updateFindOption = (key: keyof FindOptions, value: boolean) => {
+    setFindOptions(prev => ({ ...prev, [key]: value }));
+    setReplacedCount(null);
+  };
+
+  return (
+    <Box>
+      {/* Find and replace */}
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+        <TextField
+          label="Find"
+          size="small"
+          value={find}
+          onChange={(e) => { setFind(e.target.value); setReplacedCount(null); }}
+          helperText={find ? `${matchCount} match${matchCount === 1 ? '' : 'es'}` : ' '}
+          sx={{ minWidth: 180 }}
+        />
+        <TextField
+          label="Replace with"
+          size="small"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          helperText={replacedCount !== null ? `Replaced ${replacedCount}` : ' '}
+          sx={{ minWidth: 180 }}
+        />
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2.5 }}>
+          <FormControlLabel
+            control={<Checkbox size="small" checked={findOptions.matchCase} onChange={(e) => updateFindOption('matchCase', e.target.checked)} />}
+            label="Match case"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={findOptions.wholeWord} onChange={(e) => updateFindOption('wholeWord', e.target.checked)} />}
+            label="Whole word"
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<FindReplace />}
+            onClick={handleReplaceAll}
+            disabled={matchCount === 0}
+          >
+            Replace All
+          </Button>
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="caption" color="text.secondary">
+          {editable.timed
+            ? 'Changes are saved when a field loses focus. Unchanged words keep their timestamps.'
+            : 'Changes are saved when the field loses focus.'}
+        </Typography>
+        <Button size="small" startIcon={<RestartAlt />} onClick={onReset} disabled={!isEdited}>
+          Revert to Original
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 1, bgcolor: 'background.default', maxHeight: 500, overflow: 'auto' }}>
+        {editable.segments.map((segment, i) => (
+          <SegmentEditor
+            key={`${i}-${segment.start}`}
+            segment={segment}
+            index={i}
+            timed={editable.timed}
+            canMerge={i < editable.segments.length - 1}
+            onCommit={handleCommit}
+            onSplit={handleSplit}
+            onMerge={handleMerge}
+          />
+        ))}
+      </Paper>
+    </Box>
+  );
+}
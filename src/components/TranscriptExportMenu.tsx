@@ -0,0 +1,34 @@
+import { Menu, MenuItem, ListItemText } from '@mui/material';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/transcriptExport';
+
+interface TranscriptExportMenuProps {
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  hasTimestamps: boolean; // Subtitle formats need timestamps
+  onSelect: (format: ExportFormat) => void;
+}
+
+/**
+ * Download menu listing every transcript export format
+ */
+export function TranscriptExportMenu({ anchorEl, onClose, hasTimestamps, onSelect }: TranscriptExportMenuProps) {
+  return (
+    <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={onClose}>
+      {EXPORT_FORMATS.map(format => (
+        <MenuItem
+          key={format.id}
+          onClick={() => {
+            onClose();
+            onSelect(format.id);
+          }}
+          disabled={format.needsTimestamps && !hasTimestamps}
+        >
+          <ListItemText
+            primary={format.label}
+            secondary={format.needsTimestamps && !hasTimestamps ? 'Transcribe with timestamps first' : format.detail}
+          />
+        </MenuItem>
+      ))}
+    </Menu>
+  );
+}
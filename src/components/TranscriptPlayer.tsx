@@ -0,0 +1,313 @@
+import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react';
+import { Box, Typography, Paper, LinearProgress, useTheme } from '@mui/material';
+import { useWaveform, Waveform } from '../hooks/useWaveform';
+import { TranscriptTimestamps, TranscriptWord, TranscriptSegment, groupWordsBySegment } from '../utils/subtitles';
+
+interface TranscriptPlayerProps {
+  file: File;
+  timestamps?: TranscriptTimestamps;
+  showTranscript?: boolean; // Hidden while the transcript is being edited
+}
+
+const WAVEFORM_HEIGHT = 80;
+
+// Index of the last item that has started at `time`, or -1 (items are sorted by start)
+const findActiveIndex = (items: Array<{ start: number }>, time: number): number => {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (items[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, '0')}`;
+};
+
+// Mirrored bars, filled up to `progress` (0..1) in the played color
+const drawPeaks = (
+  context: CanvasRenderingContext2D,
+  waveform: Waveform,
+  width: number,
+  height: number,
+  progress: number,
+  playedColor: string,
+  color: string
+) => {
+  const { peaks } = waveform;
+  const mid = height / 2;
+  const barWidth = width / peaks.length;
+  const playedUntil = progress * peaks.length;
+  for (let i = 0; i < peaks.length; i++) {
+    const barHeight = Math.max(1, peaks[i] * (height - 4));
+    context.fillStyle = i < playedUntil ? playedColor : color;
+    context.fillRect(i * barWidth, mid - barHeight / 2, Math.max(1, barWidth), barHeight);
+  }
+};
+
+interface SegmentRowProps {
+  segment: TranscriptSegment;
+  words: TranscriptWord[];
+  firstWordIndex: number; // Index of words[0] in the full word list
+  activeWord: number;     // Global index of the highlighted word, -1 when it is not in this segment
+  active: boolean;
+  onSeek: (time: number) => void;
+}
+
+// Memoized so only the rows whose highlight changed re-render during playback
+const SegmentRow = memo(function SegmentRow({ segment, words, firstWordIndex, activeWord, active, onSeek }: SegmentRowProps) {
+  return (
+    <Box
+      data-active={active || undefined}
+      sx={{
+        display: 'flex',
+        gap: 1.5,
+        py: 0.5,
+        px: 1,
+        borderRadius: 1,
+        bgcolor: active ? 'action.selected' : 'transparent',
+      }}
+    >
+      <Typography
+        variant="caption"
+        color="text.secondary"
+        onClick={() => onSeek(segment.start)}
+        sx={{ cursor: 'pointer', fontFamily: 'monospace', pt: 0.25, flexShrink: 0 }}
+      >
+        {formatClock(segment.start)}
+      </Typography>
+      <Typography variant="body2" component="div">
+        {words.length > 0
+          ? words.map((word, i) => (
+              <Box
+                key={i}
+                component="span"
+                onClick={() => onSeek(word.start)}
+                sx={{
+                  cursor: 'pointer',
+                  borderRadius: 0.5,
+                  px: 0.25,
+                  bgcolor: firstWordIndex + i === activeWord ? 'primary.main' : 'transparent',
+                  color: firstWordIndex + i === activeWord ? 'primary.contrastText' : 'inherit',
+                  '&:hover': { textDecoration: 'underline' },
+                }}
+              >
+                {word.text}{' '}
+              </Box>
+            ))
+          : (
+            <Box component="span" onClick={() => onSeek(segment.start)} sx={{ cursor: 'pointer' }}>
+              {segment.segment}
+            </Box>
+          )}
+      </Typography>
+    </Box>
+  );
+});
+
+/**
+ * Player for the transcribed file: waveform overview with segment boundaries and a
+ * transcript whose current word/segment follows playback; clicking either seeks
+ */
+export function TranscriptPlayer({ file, timestamps, showTranscript = true }: TranscriptPlayerProps) {
+  const theme = useTheme();
+  const { waveform, loading: waveformLoading, error: waveformError } = useWaveform(file);
+  const [url, setUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [activeWord, setActiveWord] = useState(-1);
+  const [activeSegment, setActiveSegment] = useState(-1);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const syncRef = useRef<(time: number) => void>(() => {});
+
+  const words = useMemo(() => timestamps?.word || [], [timestamps]);
+  // Without segments, the words form a single row
+  const segments = useMemo<TranscriptSegment[]>(() => {
+    if (timestamps?.segment?.length) return timestamps.segment;
+    if (words.length === 0) return [];
+    return [{ start: words[0].start, end: words[words.length - 1].end, segment: words.map(w => w.text).join(' ') }];
+  }, [timestamps, words]);
+  const segmentWords = useMemo(() => groupWordsBySegment(words, segments), [words, segments]);
+  const firstWordIndexes = useMemo(() => {
+    let index = 0;
+    return segmentWords.map(group => {
+      const first = index;
+      index += group.length;
+      return first;
+    });
+  }, [segmentWords]);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const totalDuration = duration || waveform?.duration || 0;
+
+  const drawWaveform = useCallback((time: number) => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const { width, height } = canvas;
+    context.clearRect(0, 0, width, height);
+    if (!waveform || totalDuration <= 0) return;
+
+    drawPeaks(context, waveform, width, height, time / totalDuration, theme.palette.primary.main, theme.palette.action.disabled);
+
+    // Segment boundaries
+    context.fillStyle = theme.palette.secondary.main;
+    segments.forEach(segment => {
+      context.fillRect(Math.round((segment.start / totalDuration) * width), 0, 1, height);
+    });
+
+    // Playhead
+    context.fillStyle = theme.palette.text.primary;
+    context.fillRect(Math.round((time / totalDuration) * width), 0, 2, height);
+  }, [waveform, totalDuration, segments, theme]);
+
+  // Sync highlights and the playhead with the audio position
+  const syncToTime = useCallback((time: number) => {
+    drawWaveform(time);
+    setActiveWord(findActiveIndex(words, time));
+    setActiveSegment(findActiveIndex(segments, time));
+  }, [drawWaveform, words, segments]);
+  syncRef.current = syncToTime;
+
+  // timeupdate only fires a few times a second; follow playback every frame instead
+  const startTracking = () => {
+    const tick = () => {
+      if (audioRef.current) syncRef.current(audioRef.current.currentTime);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    stopTracking();
+    tick();
+  };
+
+  const stopTracking = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  };
+
+  useEffect(() => stopTracking, []);
+
+  // Redraw when the waveform arrives, the duration is known or the theme changes
+  useEffect(() => {
+    syncToTime(audioRef.current?.currentTime ?? 0);
+  }, [syncToTime]);
+
+  // Keep the active segment in view while playing
+  useEffect(() => {
+    if (frameRef.current === null) return;
+    const container = transcriptRef.current;
+    const row = container?.querySelector<HTMLElement>('[data-active]');
+    if (!container || !row) return;
+    const top = row.offsetTop; // The container is the row's offset parent
+    if (top < container.scrollTop || top + row.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), behavior: 'smooth' });
+    }
+  }, [activeSegment]);
+
+  const handleSeek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    syncToTime(time);
+    if (audio.paused) {
+      audio.play().catch((err: unknown) => console.error('[Transcript Player] Playback failed:', err));
+    }
+  }, [syncToTime]);
+
+  const handleWaveformClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (totalDuration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    handleSeek(((e.clientX - rect.left) / rect.width) * totalDuration);
+  };
+
+  return (
+    <Box>
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          controls
+          style={{ width: '100%' }}
+          onLoadedMetadata={(e) => {
+            const value = e.currentTarget.duration;
+            if (Number.isFinite(value)) setDuration(value);
+          }}
+          onPlay={startTracking}
+          onPause={stopTracking}
+          onEnded={stopTracking}
+          onSeeked={(e) => syncToTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      <Box sx={{ mt: 1, mb: 2 }}>
+        {waveformLoading && <LinearProgress />}
+        {waveformError && (
+          <Typography variant="caption" color="text.secondary">
+            {waveformError}
+          </Typography>
+        )}
+        {waveform && (
+          <Box>
+            <canvas
+              ref={canvasRef}
+              width={waveform.peaks.length}
+              height={WAVEFORM_HEIGHT}
+              onClick={handleWaveformClick}
+              style={{ width: '100%', height: WAVEFORM_HEIGHT, cursor: 'pointer', display: 'block' }}
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Typography variant="caption" color="text.secondary">0:00</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {segments.length > 0 && `${segments.length} segment${segments.length === 1 ? '' : 's'} · `}
+                {formatClock(totalDuration)}
+              </Typography>
+            </Box>
+          </Box>
+        )}
+      </Box>
+
+      {showTranscript && segments.length > 0 && (
+        <Paper
+          ref={transcriptRef}
+          sx={{ p: 1, bgcolor: 'background.default', maxHeight: 400, overflow: 'auto', position: 'relative' }}
+        >
+          {segments.map((segment, i) => {
+            const first = firstWordIndexes[i];
+            const containsWord = activeWord >= first && activeWord < first + segmentWords[i].length;
+            return (
+              <SegmentRow
+                key={i}
+                segment={segment}
+                words={segmentWords[i]}
+                firstWordIndex={first}
+                activeWord={containsWord ? activeWord : -1}
+                active={i === activeSegment}
+                onSeek={handleSeek}
+              />
+            );
+          })}
+        </Paper>
+      )}
+    </Box>
+  );
+}
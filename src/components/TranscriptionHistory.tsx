@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  LinearProgress,
+  Chip,
+} from '@mui/material';
+import { FolderOpen, Download, Edit, Delete } from '@mui/icons-material';
+import { TranscriptionRecord } from '../hooks/useTranscriptionHistory';
+import { ExportFormat, hasTranscriptTimestamps } from '../utils/transcriptExport';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
+
+interface TranscriptionHistoryProps {
+  items: TranscriptionRecord[];
+  isLoading: boolean;
+  activeId: string | null; // Transcription currently shown in the result view
+  onOpen: (record: TranscriptionRecord) => void;
+  onExport: (record: TranscriptionRecord, format: ExportFormat) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, '0')}`;
+};
+
+/**
+ * Saved transcriptions with reopen, re-export, rename and delete
+ */
+export function TranscriptionHistory({
+  items,
+  isLoading,
+  activeId,
+  onOpen,
+  onExport,
+  onRename,
+  onDelete,
+}: TranscriptionHistoryProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [exportTarget, setExportTarget] = useState<{ anchor: HTMLElement; record: TranscriptionRecord } | null>(null);
+
+  const commitRename = (id: string, value: string) => {
+    setRenamingId(null);
+    onRename(id, value);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">Transcription History</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {items.length} transcription{items.length === 1 ? '' : 's'}
+        </Typography>
+      </Box>
+
+      {isLoading && <LinearProgress sx={{ mb: 1 }} />}
+
+      {!isLoading && items.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+          Finished transcriptions are saved here in this browser
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {items.map(record => (
+            <ListItem
+              key={record.id}
+              divider
+              selected={record.id === activeId}
+              secondaryAction={
+                <Box>
+                  <IconButton size="small" onClick={() => onOpen(record)} title="Open">
+                    <FolderOpen fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={(e) => setExportTarget({ anchor: e.currentTarget, record })}
+                    title="Download"
+                  >
+                    <Download fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => setRenamingId(record.id)} title="Rename">
+                    <Edit fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => onDelete(record.id)} title="Delete">
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Box>
+              }
+              sx={{ pr: 20 }}
+            >
+              <ListItemText
+                disableTypography
+                primary={renamingId === record.id ? (
+                  <TextField
+                    defaultValue={record.name}
+                    size="small"
+                    variant="standard"
+                    autoFocus
+                    fullWidth
+                    inputProps={{ maxLength: 120 }}
+                    onBlur={(e) => commitRename(record.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(record.id, (e.target as HTMLInputElement).value);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                  />
+                ) : (
+                  <Typography variant="body2" noWrap title={record.text}>
+                    {record.name}
+                  </Typography>
+                )}
+                secondary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                    <Typography variant="caption" color="text.secondary">
+                      {record.name !== record.filename && `${record.filename} • `}
+                      {record.duration !== undefined && `${formatDuration(record.duration)} • `}
+                      {new Date(record.timestamp).toLocaleString()}
+                    </Typography>
+                    <Chip
+                      label={record.includeTimestamps ? 'Timestamps' : 'Text only'}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </Box>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <TranscriptExportMenu
+        anchorEl={exportTarget?.anchor ?? null}
+        onClose={() => setExportTarget(null)}
+        hasTimestamps={!!exportTarget && hasTranscriptTimestamps(exportTarget.record)}
+        onSelect={(format) => exportTarget && onExport(exportTarget.record, format)}
+      />
+    </Box>
+  );
+}
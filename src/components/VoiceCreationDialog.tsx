@@ -12,12 +12,22 @@ import {
   Alert,
   AlertTitle,
   IconButton,
-  Paper
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Checkbox
 } from '@mui/material';
 import {
   CloudUpload,
-  Close
+  Close,
+  Mic
 } from '@mui/icons-material';
+import { toVoiceSlug, toDisplayName } from '../utils/voiceNames';
+import { VoiceRecorder } from './VoiceRecorder';
+import { AudioQualityReport } from './AudioQualityReport';
+import { useAudioAnalysis } from '../hooks/useAudioAnalysis';
+import { prepareReferenceAudio } from '../utils/audioQuality';
 
 interface VoiceCreationDialogProps {
   open: boolean;
@@ -28,11 +38,13 @@ interface VoiceCreationDialogProps {
   loading: boolean;
   error: string | null;
   clearError: () => void;
+  // 'enrollment': Alibaba voice enrollment; 'reference': reference clip for a catalog service (reviewed by an admin)
+  variant?: 'enrollment' | 'reference';
 }
 
 /**
- * Voice Creation Dialog for Alibaba Cloud Qwen-TTS
- * Supports file input and drag-drop with validation
+ * Voice Creation Dialog for Alibaba Cloud Qwen-TTS enrollment and EchoTTS reference voices
+ * Supports file input, drag-drop and microphone recording with validation
  */
 export function VoiceCreationDialog({
   open,
@@ -42,13 +54,21 @@ export function VoiceCreationDialog({
   createVoice,
   loading: externalLoading,
   error: externalError,
-  clearError
+  clearError,
+  variant = 'enrollment'
 }: VoiceCreationDialogProps) {
+  const isReference = variant === 'reference';
   const [voiceName, setVoiceName] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [mode, setMode] = useState<'upload' | 'record'>('upload');
+  const [cleanedFile, setCleanedFile] = useState<File | null>(null);
+  const [fixing, setFixing] = useState(false);
+  const [acceptFailed, setAcceptFailed] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { analysis, analyzing, error: analysisError } = useAudioAnalysis(selectedFile);
+  const qualityFailed = analysis?.overall === 'fail' && !acceptFailed;
 
   // Reset state when dialog opens/closes
   useEffect(() => {
@@ -56,23 +76,72 @@ export function VoiceCreationDialog({
       setVoiceName('');
       setSelectedFile(null);
       setError(null);
+      setMode('upload');
+      setCleanedFile(null);
     }
   }, [open]);
 
-  // Validate voice name (alphanumeric and underscores only, max 16 chars)
+  // A new file needs a fresh decision on failed quality checks
+  useEffect(() => {
+    setAcceptFailed(false);
+  }, [selectedFile]);
+
+  // Replace the selected file with a trimmed and normalized WAV
+  const handleApplyFixes = async () => {
+    if (!selectedFile) return;
+    setFixing(true);
+    try {
+      const cleaned = await prepareReferenceAudio(selectedFile);
+      const validationError = validateFile(cleaned);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+      setCleanedFile(cleaned);
+      setSelectedFile(cleaned);
+    } catch (err: unknown) {
+      console.error('[Voice Creation] Failed to clean up audio:', err);
+      setError('Failed to process the audio file.');
+    } finally {
+      setFixing(false);
+    }
+  };
+
+  // Recorded takes are WAV files and go through the same path as uploads
+  const handleRecorded = useCallback((file: File | null) => {
+    setSelectedFile(file);
+    if (file) setError(null);
+  }, []);
+
+  const handleModeChange = (_e: React.MouseEvent<HTMLElement>, value: 'upload' | 'record' | null) => {
+    if (!value || value === mode) return;
+    setMode(value);
+    setSelectedFile(null);
+    setError(null);
+  };
+
+  // Enrollment names: alphanumeric and underscores, max 16 chars
+  // Reference names: up to 40 chars that turn into a non-empty slug id
   const validateVoiceName = useCallback((name: string): boolean => {
+    if (isReference) {
+      return name.trim().length <= 40 && toVoiceSlug(name).length > 0;
+    }
     return /^[a-zA-Z0-9_]{1,16}$/.test(name);
-  }, []);
+  }, [isReference]);
 
   // Validate file format
   const validateFile = useCallback((file: File): string | null => {
     const validTypes = ['audio/wav', 'audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/x-wav'];
     const validExtensions = ['.wav', '.mp3', '.m4a'];
+    if (isReference) {
+      validTypes.push('audio/ogg');
+      validExtensions.push('.ogg');
+    }
 
     if (!validTypes.includes(file.type)) {
       const extension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
       if (!validExtensions.includes(extension)) {
-        return 'Invalid file format. Please upload WAV, MP3, or M4A.';
+        return `Invalid file format. Please upload WAV, MP3, ${isReference ? 'M4A or OGG' : 'or M4A'}.`;
       }
     }
 
@@ -82,7 +151,7 @@ export function VoiceCreationDialog({
     }
 
     return null;
-  }, []);
+  }, [isReference]);
 
   // Handle drag events
   const handleDrag = useCallback((e: any) => {
@@ -146,7 +215,9 @@ export function VoiceCreationDialog({
     }
 
     if (!validateVoiceName(voiceName)) {
-      setError('Voice name must be 1-16 characters, alphanumeric and underscores only.');
+      setError(isReference
+        ? 'Voice name must be at most 40 characters and contain letters or numbers.'
+        : 'Voice name must be 1-16 characters, alphanumeric and underscores only.');
       return;
     }
 
@@ -155,6 +226,11 @@ export function VoiceCreationDialog({
       return;
     }
 
+    if (qualityFailed) {
+      setError('The audio failed the quality checks. Use a better recording or confirm to submit it anyway.');
+      return;
+    }
+
     // Call the hook's createVoice function
     const voiceId = await createVoice({
       file: selectedFile,
@@ -186,7 +262,7 @@ export function VoiceCreationDialog({
     <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
       <DialogTitle>
         <Box display="flex" alignItems="center" justifyContent="space-between">
-          <Typography variant="h6">Create Custom Voice</Typography>
+          <Typography variant="h6">{isReference ? 'Upload Reference Voice' : 'Create Custom Voice'}</Typography>
           <IconButton onClick={handleClose} disabled={externalLoading} size="small">
             <Close />
           </IconButton>
@@ -198,82 +274,138 @@ export function VoiceCreationDialog({
           {/* Voice Name Input */}
           <TextField
             label="Voice Name"
-            placeholder="e.g., my_voice"
+            placeholder={isReference ? 'e.g., Dorota Nowak' : 'e.g., my_voice'}
             value={voiceName}
             onChange={(e) => setVoiceName(e.target.value)}
             fullWidth
             disabled={externalLoading}
             error={voiceName.length > 0 && !validateVoiceName(voiceName)}
-            helperText="1-16 characters, alphanumeric and underscores only"
+            helperText={isReference
+              ? (toVoiceSlug(voiceName) ? `Listed as "${toDisplayName(voiceName)}" (id: ${toVoiceSlug(voiceName)})` : 'Up to 40 characters')
+              : '1-16 characters, alphanumeric and underscores only'}
             autoFocus
           />
 
-          {/* File Upload Area */}
-          <Box
-            onDragEnter={handleDrag}
-            onDragLeave={handleDrag}
-            onDragOver={handleDrag}
-            onDrop={handleDrop}
-            sx={{
-              border: '2px dashed',
-              borderColor: dragActive ? 'primary.main' : 'grey.400',
-              borderRadius: 2,
-              p: 4,
-              textAlign: 'center',
-              bgcolor: dragActive ? 'action.hover' : 'background.paper',
-              cursor: 'pointer',
-              transition: 'all 0.2s ease',
-              '&:hover': {
-                borderColor: 'primary.main',
-                bgcolor: 'action.hover'
-              }
-            }}
-            onClick={handleFileSelect}
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            onChange={handleModeChange}
+            size="small"
+            fullWidth
+            disabled={externalLoading}
           >
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".wav,.mp3,.m4a,audio/wav,audio/mpeg,audio/mp4"
-              onChange={handleFileInputChange}
-              style={{ display: 'none' }}
-            />
-            <CloudUpload sx={{ fontSize: 48, color: 'text.secondary', mb: 2 }} />
-            {selectedFile ? (
-              <Box>
-                <Typography variant="subtitle1" fontWeight="bold" color="primary">
-                  {selectedFile.name}
-                </Typography>
-                <Typography variant="body2" color="text.secondary">
-                  {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                </Typography>
-                <Button
-                  variant="outlined"
-                  size="small"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setSelectedFile(null);
-                  }}
-                  sx={{ mt: 2 }}
-                >
-                  Change File
-                </Button>
-              </Box>
-            ) : (
-              <Box>
-                <Typography variant="subtitle1" fontWeight="bold">
-                  Drop audio file here or click to browse
-                </Typography>
-                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-                  WAV, MP3, M4A • Max 10MB • Recommended: 10-60 seconds
-                </Typography>
-              </Box>
-            )}
-          </Box>
+            <ToggleButton value="upload">
+              <CloudUpload fontSize="small" sx={{ mr: 1 }} />
+              Upload File
+            </ToggleButton>
+            <ToggleButton value="record">
+              <Mic fontSize="small" sx={{ mr: 1 }} />
+              Record
+            </ToggleButton>
+          </ToggleButtonGroup>
+
+          {mode === 'record' ? (
+            <VoiceRecorder onRecorded={handleRecorded} disabled={externalLoading} />
+          ) : (
+            /* File Upload Area */
+            <Box
+              onDragEnter={handleDrag}
+              onDragLeave={handleDrag}
+              onDragOver={handleDrag}
+              onDrop={handleDrop}
+              sx={{
+                border: '2px dashed',
+                borderColor: dragActive ? 'primary.main' : 'grey.400',
+                borderRadius: 2,
+                p: 4,
+                textAlign: 'center',
+                bgcolor: dragActive ? 'action.hover' : 'background.paper',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                '&:hover': {
+                  borderColor: 'primary.main',
+                  bgcolor: 'action.hover'
+                }
+              }}
+              onClick={handleFileSelect}
+            >
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={isReference ? '.wav,.mp3,.m4a,.ogg,audio/wav,audio/mpeg,audio/mp4,audio/ogg' : '.wav,.mp3,.m4a,audio/wav,audio/mpeg,audio/mp4'}
+                onChange={handleFileInputChange}
+                style={{ display: 'none' }}
+              />
+              <CloudUpload sx={{ fontSize: 48, color: 'text.secondary', mb: 2 }} />
+              {selectedFile ? (
+                <Box>
+                  <Typography variant="subtitle1" fontWeight="bold" color="primary">
+                    {selectedFile.name}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                  </Typography>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedFile(null);
+                    }}
+                    sx={{ mt: 2 }}
+                  >
+                    Change File
+                  </Button>
+                </Box>
+              ) : (
+                <Box>
+                  <Typography variant="subtitle1" fontWeight="bold">
+                    Drop audio file here or click to browse
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    {isReference ? 'WAV, MP3, M4A, OGG' : 'WAV, MP3, M4A'} • Max 10MB • Recommended: 10-60 seconds
+                  </Typography>
+                </Box>
+              )}
+            </Box>
+          )}
+
+          {/* Reference Quality Analysis */}
+          {selectedFile && (
+            <Box>
+              <AudioQualityReport
+                analysis={analysis}
+                analyzing={analyzing}
+                error={analysisError}
+                onApplyFixes={handleApplyFixes}
+                fixing={fixing}
+                fixed={selectedFile === cleanedFile}
+                disabled={externalLoading}
+              />
+              {analysis?.overall === 'fail' && (
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={acceptFailed}
+                      onChange={(e) => setAcceptFailed(e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label={<Typography variant="body2">Submit anyway</Typography>}
+                  sx={{ mt: 1 }}
+                />
+              )}
+            </Box>
+          )}
 
           {/* Audio Requirements Info */}
           <Paper variant="outlined" sx={{ p: 2, bgcolor: 'info.50' }}>
             <Typography variant="caption" color="text.secondary">
-              <strong>Audio requirements:</strong> ≥24kHz sample rate, mono channel, clear reading without background noise. Optimal duration: 10-20 seconds (max 60s).
+              {isReference ? (
+                <><strong>Audio requirements:</strong> clear reading without background noise or music, 30-60 seconds. New voices stay pending (visible only to you) until an admin approves them.</>
+              ) : (
+                <><strong>Audio requirements:</strong> ≥24kHz sample rate, mono channel, clear reading without background noise. Optimal duration: 10-20 seconds (max 60s).</>
+              )}
             </Typography>
           </Paper>
 
@@ -289,7 +421,7 @@ export function VoiceCreationDialog({
           {externalLoading && (
             <Box>
               <Typography variant="body2" color="text.secondary" gutterBottom>
-                Creating voice... This may take a moment.
+                {isReference ? 'Uploading voice...' : 'Creating voice... This may take a moment.'}
               </Typography>
               <LinearProgress />
             </Box>
@@ -304,9 +436,9 @@ export function VoiceCreationDialog({
         <Button
           variant="contained"
           onClick={handleCreate}
-          disabled={!voiceName || !selectedFile || externalLoading}
+          disabled={!voiceName || !selectedFile || externalLoading || analyzing || fixing || qualityFailed}
         >
-          Create Voice
+          {isReference ? 'Upload Voice' : 'Create Voice'}
         </Button>
       </DialogActions>
     </Dialog>
@@ -0,0 +1,380 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  IconButton,
+  Alert,
+  LinearProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TablePagination,
+  Checkbox,
+  TextField,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import { Close, Delete, PlayArrow, Stop, Refresh } from '@mui/icons-material';
+import { AlibabaVoice, DeleteVoicesResult, getPreferredName } from '../hooks/useAlibabaVoices';
+import { useAlibabaTTS } from '../hooks/useAlibabaTTS';
+import { VoiceLabel } from '../hooks/useVoiceLabels';
+import { TTSService } from '../config';
+
+interface VoiceManagerDialogProps {
+  open: boolean;
+  onClose: () => void;
+  service: TTSService | null; // Used to synthesize previews
+  voices: AlibabaVoice[];
+  loading: boolean;
+  error: string | null;
+  clearError: () => void;
+  onRefresh: () => Promise<void>;
+  onDelete: (voiceIds: string[]) => Promise<DeleteVoicesResult>;
+  canDelete: boolean;
+  labels: Record<string, VoiceLabel>;
+  onLabelChange: (voiceId: string, label: Partial<VoiceLabel>) => void;
+}
+
+const PREVIEW_TEXT = 'Hello! This is a short preview of my cloned voice.';
+
+/**
+ * Voice manager for Alibaba enrolled voices
+ * Lists every voice with its metadata, local alias/notes, preview playback and bulk delete
+ */
+export function VoiceManagerDialog({
+  open,
+  onClose,
+  service,
+  voices,
+  loading,
+  error,
+  clearError,
+  onRefresh,
+  onDelete,
+  canDelete,
+  labels,
+  onLabelChange
+}: VoiceManagerDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [previewing, setPreviewing] = useState<string | null>(null); // Voice being synthesized or played
+  const [playing, setPlaying] = useState(false);
+  const [previewFailure, setPreviewFailure] = useState<string | null>(null); // generate() rejects without setting its error
+  const previewUrlsRef = useRef<Map<string, string>>(new Map());
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const { generate, loading: previewLoading, error: previewError, clearError: clearPreviewError } = useAlibabaTTS();
+
+  // Newest first
+  const sortedVoices = useMemo(
+    () => [...voices].sort((a, b) => b.gmt_create.localeCompare(a.gmt_create)),
+    [voices]
+  );
+  const pageVoices = sortedVoices.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  // Drop selections for voices that no longer exist and keep the page in range
+  useEffect(() => {
+    setSelected(prev => prev.filter(id => voices.some(v => v.voice === id)));
+    if (page > 0 && page * rowsPerPage >= voices.length) {
+      setPage(Math.max(0, Math.ceil(voices.length / rowsPerPage) - 1));
+    }
+  }, [voices, page, rowsPerPage]);
+
+  const stopPreview = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlaying(false);
+    setPreviewing(null);
+  };
+
+  // Reset on close; previews are kept for the session
+  useEffect(() => {
+    if (!open) {
+      stopPreview();
+      setSelected([]);
+      setConfirmOpen(false);
+      clearPreviewError();
+      setPreviewFailure(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  useEffect(() => {
+    const urls = previewUrlsRef.current;
+    return () => {
+      audioRef.current?.pause();
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  const handlePreview = async (voiceId: string) => {
+    if (previewing === voiceId) {
+      stopPreview();
+      return;
+    }
+    stopPreview();
+    if (!service) return;
+
+    setPreviewing(voiceId);
+    setPreviewFailure(null);
+    let url = previewUrlsRef.current.get(voiceId);
+    if (!url) {
+      let blob: Blob | null;
+      try {
+        blob = await generate({ text: PREVIEW_TEXT, voice: voiceId, service });
+      } catch (err: unknown) {
+        console.error('[Voice Manager] Preview synthesis failed:', err);
+        setPreviewFailure(err instanceof Error ? err.message : 'Failed to generate preview');
+        blob = null;
+      }
+      if (!blob) {
+        setPreviewing(null);
+        return;
+      }
+      url = URL.createObjectURL(blob);
+      previewUrlsRef.current.set(voiceId, url);
+    }
+
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    audio.onended = () => stopPreview();
+    try {
+      await audio.play();
+      setPlaying(true);
+    } catch (err: unknown) {
+      console.error('[Voice Manager] Preview playback failed:', err);
+      stopPreview();
+    }
+  };
+
+  const toggleSelected = (voiceId: string) => {
+    setSelected(prev => (prev.includes(voiceId) ? prev.filter(id => id !== voiceId) : [...prev, voiceId]));
+  };
+
+  const pageIds = pageVoices.map(v => v.voice);
+  const pageSelectedCount = pageIds.filter(id => selected.includes(id)).length;
+  const togglePage = () => {
+    setSelected(prev => (pageSelectedCount === pageIds.length
+      ? prev.filter(id => !pageIds.includes(id))
+      : Array.from(new Set([...prev, ...pageIds]))));
+  };
+
+  const handleConfirmDelete = async () => {
+    setConfirmOpen(false);
+    stopPreview();
+    const { deleted } = await onDelete(selected);
+    deleted.forEach(id => {
+      const url = previewUrlsRef.current.get(id);
+      if (url) URL.revokeObjectURL(url);
+      previewUrlsRef.current.delete(id);
+    });
+    setSelected(prev => prev.filter(id => !deleted.includes(id)));
+  };
+
+  const displayError = error || previewError || previewFailure;
+
+  return (
+    <Dialog open={open} onClose={loading ? undefined : onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">Manage Voices ({voices.length})</Typography>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Tooltip title="Refresh">
+              <span>
+                <IconButton onClick={onRefresh} disabled={loading} size="small">
+                  <Refresh />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <IconButton onClick={onClose} disabled={loading} size="small">
+              <Close />
+            </IconButton>
+          </Box>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+        {displayError && (
+          <Alert severity="error" onClose={() => { clearError(); clearPreviewError(); setPreviewFailure(null); }} sx={{ mb: 2 }}>
+            {displayError}
+          </Alert>
+        )}
+
+        {!loading && voices.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No cloned voices yet
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {canDelete && (
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        indeterminate={pageSelectedCount > 0 && pageSelectedCount < pageIds.length}
+                        checked={pageIds.length > 0 && pageSelectedCount === pageIds.length}
+                        onChange={togglePage}
+                        disabled={loading}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell>Name</TableCell>
+                  <TableCell>Alias</TableCell>
+                  <TableCell>Notes</TableCell>
+                  <TableCell>Target model</TableCell>
+                  <TableCell>Created</TableCell>
+                  <TableCell align="right">Preview</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {pageVoices.map(v => {
+                  const label = labels[v.voice];
+                  const isPreviewing = previewing === v.voice;
+                  return (
+                    <TableRow key={v.voice} hover selected={selected.includes(v.voice)}>
+                      {canDelete && (
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={selected.includes(v.voice)}
+                            onChange={() => toggleSelected(v.voice)}
+                            disabled={loading}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Typography variant="body2" fontWeight="bold">{getPreferredName(v.voice)}</Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                          {v.voice}
+                        </Typography>
+                      </TableCell>
+                      <TableCell sx={{ minWidth: 140 }}>
+                        <TextField
+                          key={`alias-${v.voice}-${label?.alias ?? ''}`}
+                          defaultValue={label?.alias ?? ''}
+                          onBlur={(e) => onLabelChange(v.voice, { alias: e.target.value.trim() })}
+                          placeholder="Alias"
+                          size="small"
+                          variant="standard"
+                          inputProps={{ maxLength: 60 }}
+                          fullWidth
+                        />
+                      </TableCell>
+                      <TableCell sx={{ minWidth: 180 }}>
+                        <TextField
+                          key={`notes-${v.voice}-${label?.notes ?? ''}`}
+                          defaultValue={label?.notes ?? ''}
+                          onBlur={(e) => onLabelChange(v.voice, { notes: e.target.value.trim() })}
+                          placeholder="Notes"
+                          size="small"
+                          variant="standard"
+                          inputProps={{ maxLength: 500 }}
+                          multiline
+                          maxRows={3}
+                          fullWidth
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption">{v.target_model}</Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption" noWrap>{v.gmt_create}</Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={isPreviewing ? 'Stop' : `Play "${PREVIEW_TEXT}"`}>
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => handlePreview(v.voice)}
+                              disabled={!service || (previewLoading && !isPreviewing)}
+                            >
+                              {isPreviewing && !playing ? (
+                                <CircularProgress size={20} />
+                              ) : isPreviewing ? (
+                                <Stop />
+                              ) : (
+                                <PlayArrow />
+                              )}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <TablePagination
+          component="div"
+          count={voices.length}
+          page={page}
+          onPageChange={(_e, value) => setPage(value)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={[10, 25, 50, 100]}
+        />
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2, justifyContent: 'space-between' }}>
+        <Box>
+          {canDelete && (
+            <Button
+              color="error"
+              startIcon={<Delete />}
+              onClick={() => setConfirmOpen(true)}
+              disabled={selected.length === 0 || loading}
+            >
+              Delete Selected ({selected.length})
+            </Button>
+          )}
+        </Box>
+        <Button onClick={onClose} disabled={loading}>
+          Close
+        </Button>
+      </DialogActions>
+
+      {/* Bulk delete confirmation */}
+      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete {selected.length} voice{selected.length === 1 ? '' : 's'}?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            These voices are removed from your Alibaba account and cannot be recovered:
+          </DialogContentText>
+          <Box component="ul" sx={{ mt: 1, mb: 0, pl: 3, maxHeight: 200, overflowY: 'auto' }}>
+            {selected.map(id => (
+              <li key={id}>
+                <Typography variant="body2">
+                  {labels[id]?.alias || getPreferredName(id)}
+                </Typography>
+              </li>
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmOpen(false)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+}
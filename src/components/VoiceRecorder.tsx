@@ -0,0 +1,137 @@
+import { useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  LinearProgress,
+  Alert,
+  Paper,
+} from '@mui/material';
+import { Mic, Stop, Replay } from '@mui/icons-material';
+import { useVoiceRecorder, MIN_RECORDING_SECONDS, MAX_RECORDING_SECONDS } from '../hooks/useVoiceRecorder';
+
+interface VoiceRecorderProps {
+  onRecorded: (file: File | null) => void; // WAV take, or null while there is none
+  disabled?: boolean;
+}
+
+// Pangrams plus varied sentences for broad phoneme coverage; about 45s read at a relaxed pace
+const READING_SCRIPT = [
+  'The quick brown fox jumps over the lazy dog.',
+  'Pack my box with five dozen liquor jugs.',
+  'How vexingly quick daft zebras jump!',
+  'Sphinx of black quartz, judge my vow.',
+  'When the sunlight strikes raindrops in the air, they act as a prism and form a rainbow.',
+  'The rainbow is a division of white light into many beautiful colors.',
+  'These take the shape of a long round arch, with its path high above,',
+  'and its two ends apparently beyond the horizon.',
+  'Do you really think we could finish the whole journey before noon tomorrow?',
+];
+
+const formatSeconds = (seconds: number): string => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Microphone recording for voice cloning: reading script, level meter,
+ * 30-60s countdown and playback of the take before it is submitted
+ */
+export function VoiceRecorder({ onRecorded, disabled = false }: VoiceRecorderProps) {
+  const { status, elapsed, level, recording, previewUrl, error, start, stop, reset } = useVoiceRecorder();
+
+  useEffect(() => {
+    onRecorded(recording);
+  }, [recording, onRecorded]);
+
+  const isRecording = status === 'recording';
+  const canStop = isRecording && elapsed >= MIN_RECORDING_SECONDS;
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Paper variant="outlined" sx={{ p: 2, maxHeight: 180, overflowY: 'auto' }}>
+        <Typography variant="caption" color="text.secondary" gutterBottom component="div">
+          Read aloud at a natural pace:
+        </Typography>
+        <Typography variant="body1" sx={{ lineHeight: 1.8 }}>
+          {READING_SCRIPT.join(' ')}
+        </Typography>
+      </Paper>
+
+      {(isRecording || status === 'requesting') && (
+        <Box>
+          <Box display="flex" justifyContent="space-between" mb={0.5}>
+            <Typography variant="body2" color={canStop ? 'text.secondary' : 'warning.main'}>
+              {status === 'requesting'
+                ? 'Waiting for microphone access...'
+                : canStop
+                  ? `${formatSeconds(MAX_RECORDING_SECONDS - elapsed)} left`
+                  : `Keep reading: ${formatSeconds(MIN_RECORDING_SECONDS - elapsed)} until the minimum`}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {formatSeconds(elapsed)} / {formatSeconds(MAX_RECORDING_SECONDS)}
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={(elapsed / MAX_RECORDING_SECONDS) * 100}
+            sx={{ mb: 1 }}
+          />
+          {/* Input level: red means clipping, amber means too quiet */}
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, level * 100)}
+            color={level > 0.95 ? 'error' : level < 0.05 ? 'warning' : 'success'}
+            sx={{ height: 8, borderRadius: 1 }}
+          />
+        </Box>
+      )}
+
+      {status === 'processing' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Preparing recording...
+          </Typography>
+          <LinearProgress />
+        </Box>
+      )}
+
+      {status === 'recorded' && previewUrl && (
+        <audio controls src={previewUrl} style={{ width: '100%' }} />
+      )}
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      <Box display="flex" justifyContent="center" gap={1}>
+        {isRecording ? (
+          <Button
+            variant="contained"
+            color="error"
+            startIcon={<Stop />}
+            onClick={stop}
+            disabled={!canStop}
+          >
+            Stop
+          </Button>
+        ) : status === 'recorded' ? (
+          <Button variant="outlined" startIcon={<Replay />} onClick={reset} disabled={disabled}>
+            Record Again
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            startIcon={<Mic />}
+            onClick={start}
+            disabled={disabled || status !== 'idle'}
+          >
+            Start Recording
+          </Button>
+        )}
+      </Box>
+
+      <Typography variant="caption" color="text.secondary" textAlign="center">
+        Record {MIN_RECORDING_SECONDS}-{MAX_RECORDING_SECONDS} seconds in a quiet room; recording stops automatically at {MAX_RECORDING_SECONDS}s.
+      </Typography>
+    </Box>
+  );
+}
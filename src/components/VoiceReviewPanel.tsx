@@ -0,0 +1,104 @@
+import { useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  IconButton,
+  LinearProgress,
+  Tooltip,
+} from '@mui/material';
+import { Refresh, Check, Close } from '@mui/icons-material';
+import { useReferenceVoices } from '../hooks/useReferenceVoices';
+
+interface VoiceReviewPanelProps {
+  active: boolean; // Reload when the tab is opened
+}
+
+/**
+ * Admin tab: review uploaded reference voices before they join the catalog
+ */
+export function VoiceReviewPanel({ active }: VoiceReviewPanelProps) {
+  const { pendingVoices, loading, error, loadPendingVoices, approveVoice, denyVoice, clearError } = useReferenceVoices();
+
+  useEffect(() => {
+    if (active) loadPendingVoices();
+  }, [active, loadPendingVoices]);
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+          <Typography variant="h6">Pending Voices</Typography>
+          <Tooltip title="Refresh">
+            <span>
+              <IconButton onClick={loadPendingVoices} disabled={loading} size="small">
+                <Refresh />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+        {error && (
+          <Alert severity="error" onClose={clearError} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!loading && pendingVoices.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+            No voices waiting for review
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {pendingVoices.map(voice => (
+            <Card key={voice.id} variant="outlined">
+              <CardContent>
+                <Typography variant="subtitle1" noWrap>
+                  {voice.displayName}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" component="div">
+                  {[voice.id, voice.serviceId, voice.owner, voice.createdAt && new Date(voice.createdAt).toLocaleString()]
+                    .filter(Boolean)
+                    .join(' • ')}
+                </Typography>
+
+                <Box sx={{ display: 'flex', gap: 1, mt: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+                  {voice.previewUrl ? (
+                    <audio controls preload="none" src={voice.previewUrl} style={{ flex: 1, minWidth: 240 }} />
+                  ) : (
+                    <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                      Reference clip unavailable
+                    </Typography>
+                  )}
+                  <Button
+                    variant="contained"
+                    color="success"
+                    startIcon={<Check />}
+                    onClick={() => approveVoice(voice.id)}
+                    disabled={loading}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    startIcon={<Close />}
+                    onClick={() => denyVoice(voice.id)}
+                    disabled={loading}
+                  >
+                    Deny
+                  </Button>
+                </Box>
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,137 @@
+import serviceDefinitions from '../services.json';
+import { PcmFormat, DEFAULT_PCM_FORMAT } from './utils/pcm';
+
 export interface TTSVoice {
   id: string;
   label: string;
 }
 
+/**
+ * How the app talks to a backend:
+ * - openai-http: OpenAI-compatible /v1/audio/speech only
+ * - pcm-stream: OpenAI-compatible speech plus a raw PCM streaming endpoint
+ * - alibaba-realtime-ws: DashScope realtime WebSocket (proxied by server.js)
+ */
+export type TTSTransport = 'openai-http' | 'pcm-stream' | 'alibaba-realtime-ws';
+export type AuthStyle = 'bearer' | 'header' | 'none';
+// static: VITE_TTS_VOICES; catalog: GET /api/voices (voices table); alibaba-enrollment: DashScope voice list
+export type VoicesSource = 'static' | 'catalog' | 'alibaba-enrollment';
+
+export interface ServiceCapabilities {
+  streaming: boolean;    // Can be played while it is generated
+  voiceCloning: boolean; // Users can create their own voices
+}
+
+// One entry of services.json (placeholders like ${VITE_ECHOTTS_ENDPOINT} may be unresolved)
+export interface ServiceDefinition {
+  id: string;
+  label: string;
+  transport: TTSTransport;
+  endpoint: string;
+  streamEndpoint?: string; // Upstream raw PCM endpoint used by server.js for pcm-stream services
+  streamFormat?: Partial<PcmFormat>; // Raw PCM format when the backend does not announce it in headers
+  model?: string;
+  voiceApi?: string;
+  auth?: { style: AuthStyle; key?: string; header?: string };
+  voices?: { source: VoicesSource };
+  capabilities?: Partial<ServiceCapabilities>;
+  requires?: string[]; // Dotted paths that must be non-empty, default ['endpoint']
+  fallback?: boolean;  // Only used when no other service is enabled
+}
+
 export interface TTSService {
   id: string;
   label: string;
+  transport: TTSTransport;
   endpoint: string;
   apiKey: string;
-  targetModel?: string; // For Alibaba: must match voice cloning model
-  voiceApiUrl?: string; // For Alibaba: voice management API endpoint
-  streamingSupported?: boolean;  // New: indicates if streaming is available
-  streamingEndpoint?: string;     // New: explicit streaming endpoint (optional)
+  authStyle: AuthStyle;
+  authHeader?: string;      // Header name for the 'header' auth style
+  targetModel?: string;     // For Alibaba: must match voice cloning model
+  voiceApiUrl?: string;     // For Alibaba: voice management API endpoint
+  voicesSource: VoicesSource;
+  capabilities: ServiceCapabilities;
+  streamFormat: PcmFormat;  // Fallback format of streamed PCM
 }
 
+// ${NAME}, or ${NAME:-default} when the variable is unset or empty
+const PLACEHOLDER = /\$\{([A-Za-z0-9_]+)(?::-([^}]*))?\}/g;
+
+const resolvePlaceholders = <T>(value: T, lookup: (name: string) => string | undefined): T => {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER, (_match, name: string, fallback?: string) => lookup(name) || fallback || '') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolvePlaceholders(item, lookup)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolvePlaceholders(item, lookup)])
+    ) as T;
+  }
+  return value;
+};
+
+const getPath = (value: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((acc, key) => (acc as Record<string, unknown> | undefined)?.[key], value);
+
+/**
+ * Keep the definitions whose required fields resolved; fallback entries apply only when nothing else did
+ */
+const selectEnabledServices = (definitions: ServiceDefinition[]): ServiceDefinition[] => {
+  const isEnabled = (def: ServiceDefinition) => (def.requires || ['endpoint']).every(path => !!getPath(def, path));
+  const primary = definitions.filter(def => !def.fallback && isEnabled(def));
+  return primary.length > 0 ? primary : definitions.filter(def => def.fallback && isEnabled(def));
+};
+
+const toService = (def: ServiceDefinition): TTSService => ({
+  id: def.id,
+  label: def.label,
+  transport: def.transport,
+  endpoint: def.endpoint,
+  apiKey: def.auth?.key || '',
+  authStyle: def.auth?.style || 'none',
+  authHeader: def.auth?.header,
+  targetModel: def.model || undefined,
+  voiceApiUrl: def.voiceApi || undefined,
+  voicesSource: def.voices?.source || 'static',
+  capabilities: {
+    streaming: def.capabilities?.streaming ?? false,
+    voiceCloning: def.capabilities?.voiceCloning ?? false,
+  },
+  streamFormat: { ...DEFAULT_PCM_FORMAT, ...def.streamFormat },
+});
+
+/**
+ * Load the service registry.
+ * In production server.js resolves services.json and injects the result as TTS_SERVICES;
+ * in development the bundled services.json is resolved against import.meta.env.
+ */
+const loadServices = (env: Window['__ENV__'], importMetaEnv: ImportMetaEnv): TTSService[] => {
+  if (env.TTS_SERVICES) {
+    try {
+      return (JSON.parse(env.TTS_SERVICES) as ServiceDefinition[]).map(toService);
+    } catch (e) {
+      console.warn('Failed to parse TTS_SERVICES', e);
+    }
+  }
+
+  const lookup = (name: string) => env[name] || (importMetaEnv as unknown as Record<string, string | undefined>)[name];
+  const definitions = resolvePlaceholders(serviceDefinitions.services as ServiceDefinition[], lookup);
+  return selectEnabledServices(definitions).map(toService);
+};
+
+/**
+ * Request headers for a service according to its auth style
+ */
+export const getAuthHeaders = (service: TTSService): Record<string, string> => {
+  if (!service.apiKey || service.authStyle === 'none') return {};
+  if (service.authStyle === 'header') {
+    return { [service.authHeader || 'X-API-Key']: service.apiKey };
+  }
+  return { Authorization: `Bearer ${service.apiKey}` };
+};
+
 export const getConfig = () => {
   const env = window.__ENV__ || {};
   const importMetaEnv = import.meta.env;
@@ -32,82 +150,17 @@ export const getConfig = () => {
     }
   }
 
-  // Get service configurations
-  const services: TTSService[] = [];
-
-  // EchoTTS
-  const echottsEndpoint = env.VITE_ECHOTTS_ENDPOINT || importMetaEnv.VITE_ECHOTTS_ENDPOINT;
-  const echottsApiKey = env.VITE_ECHOTTS_API_KEY || importMetaEnv.VITE_ECHOTTS_API_KEY;
-  if (echottsEndpoint) {
-    services.push({
-      id: 'echotts',
-      label: 'EchoTTS',
-      endpoint: echottsEndpoint,
-      apiKey: echottsApiKey || '',
-      streamingSupported: true
-    });
-  }
-
-  // Vibe Voice
-  const vibevoiceEndpoint = env.VITE_VIBEVOICE_ENDPOINT || importMetaEnv.VITE_VIBEVOICE_ENDPOINT;
-  const vibevoiceApiKey = env.VITE_VIBEVOICE_API_KEY || importMetaEnv.VITE_VIBEVOICE_API_KEY;
-  if (vibevoiceEndpoint) {
-    services.push({
-      id: 'vibevoice',
-      label: 'Vibe Voice',
-      endpoint: vibevoiceEndpoint,
-      apiKey: vibevoiceApiKey || '',
-      streamingSupported: true
-    });
-  }
-
-  // Chatterbox
-  const chatterboxEndpoint = env.VITE_CHATTERBOX_ENDPOINT || importMetaEnv.VITE_CHATTERBOX_ENDPOINT;
-  const chatterboxApiKey = env.VITE_CHATTERBOX_API_KEY || importMetaEnv.VITE_CHATTERBOX_API_KEY;
-  if (chatterboxEndpoint) {
-    services.push({
-      id: 'chatterbox',
-      label: 'Chatterbox',
-      endpoint: chatterboxEndpoint,
-      apiKey: chatterboxApiKey || '',
-      streamingSupported: true
-    });
-  }
+  const services = loadServices(env, importMetaEnv);
 
-  // Alibaba Cloud Qwen-TTS
-  const alibabaApiKey = env.VITE_ALIBABA_API_KEY || importMetaEnv.VITE_ALIBABA_API_KEY;
-  const alibabaVoiceApi = env.VITE_ALIBABA_VOICE_API || importMetaEnv.VITE_ALIBABA_VOICE_API;
-  const alibabaModel = env.VITE_ALIBABA_TTS_MODEL || importMetaEnv.VITE_ALIBABA_TTS_MODEL;
-  if (alibabaApiKey && alibabaVoiceApi && alibabaModel) {
-    services.push({
-      id: 'alibaba',
-      label: 'Alibaba Qwen-TTS',
-      endpoint: 'wss://dashscope-intl.aliyuncs.com/api-ws/v1/realtime',
-      apiKey: alibabaApiKey,
-      targetModel: alibabaModel,
-      voiceApiUrl: alibabaVoiceApi,
-      streamingSupported: false // Uses WebSocket, not SSE
-    });
-  }
-
-  // Fallback to legacy single endpoint for backward compatibility
-  if (services.length === 0) {
-    const legacyEndpoint = env.VITE_OPEN_AI_TTS_ENDPOINT || importMetaEnv.VITE_OPEN_AI_TTS_ENDPOINT;
-    if (legacyEndpoint) {
-      services.push({
-        id: 'legacy',
-        label: 'Default',
-        endpoint: legacyEndpoint,
-        apiKey: '',
-        streamingSupported: true
-      });
-    }
-  }
+  // In proxy mode the browser has no provider keys and all TTS requests go through server.js.
+  // The server injects its mode; `npm run dev` opts in with VITE_TTS_PROXY_MODE=server.
+  const proxyMode = (env.TTS_PROXY_MODE || importMetaEnv.VITE_TTS_PROXY_MODE) === 'server';
 
   return {
     model,
     voices,
-    services
+    services,
+    proxyMode
   };
 };
 
@@ -0,0 +1,128 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { Session, User } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { apiFetch } from '../utils/api';
+
+// 'user' is the default for signed-in accounts without a user_roles row
+export type UserRole = 'user' | 'voice_creator_pending' | 'voice_creator' | 'admin';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: 'User',
+  voice_creator_pending: 'Creator (pending)',
+  voice_creator: 'Voice creator',
+  admin: 'Admin',
+};
+
+interface AuthContextType {
+  enabled: boolean; // False when Supabase is not configured (open mode)
+  session: Session | null;
+  user: User | null;
+  role: UserRole | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  refreshRole: () => Promise<void>;
+  hasRole: (...roles: UserRole[]) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType>({
+  enabled: false,
+  session: null,
+  user: null,
+  role: null,
+  loading: false,
+  signIn: async () => {},
+  signUp: async () => {},
+  signOut: async () => {},
+  refreshRole: async () => {},
+  hasRole: () => true,
+});
+
+export const useAuth = () => useContext(AuthContext);
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Holds the Supabase session and the app role resolved by the server (GET /api/me)
+ */
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [loading, setLoading] = useState(!!supabase);
+
+  useEffect(() => {
+    if (!supabase) return;
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const refreshRole = useCallback(async () => {
+    if (!session) {
+      setRole(null);
+      return;
+    }
+    try {
+      const response = await apiFetch('/api/me');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setRole(data.role || 'user');
+    } catch (error) {
+      console.error('[Auth] Failed to load role:', error);
+      setRole('user');
+    }
+  }, [session]);
+
+  // Resolve the role whenever the signed-in user changes
+  useEffect(() => {
+    refreshRole();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.user.id]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string) => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signUp({ email, password });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    setRole(null);
+  }, []);
+
+  const value = useMemo<AuthContextType>(() => ({
+    enabled: !!supabase,
+    session,
+    user: session?.user ?? null,
+    role,
+    loading,
+    signIn,
+    signUp,
+    signOut,
+    refreshRole,
+    // Open mode has no roles to check, so everything is allowed
+    hasRole: (...roles: UserRole[]) => !supabase || (!!role && roles.includes(role)),
+  }), [session, role, loading, signIn, signUp, signOut, refreshRole]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -5,4 +5,5 @@ export { useStreamingTTS } from './useStreamingTTS';
 export { useAudioPlayer } from './useAudioPlayer';
 export { useHistory } from './useHistory';
 export { useObjectUrls } from './useObjectUrls';
+export { useVoices } from './useVoices';
 export type { HistoryItem } from './useHistory';
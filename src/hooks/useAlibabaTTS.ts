@@ -1,5 +1,8 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { TTSService } from '../config';
+import { createWavBlob } from '../utils/wav';
+import { apiWebSocketUrl } from '../utils/api';
+import { base64ToBytes, PcmFormat } from '../utils/pcm';
 
 interface GenerateAlibabaTTSParams {
   text: string;
@@ -7,21 +10,78 @@ interface GenerateAlibabaTTSParams {
   service: TTSService;
 }
 
+export interface AlibabaSessionOptions {
+  voice: string;
+  service: TTSService;
+  onAudioDelta?: (pcm: Uint8Array) => void; // Raw 16-bit PCM at ALIBABA_SAMPLE_RATE
+}
+
+export type AlibabaSessionState = 'closed' | 'connecting' | 'open';
+
 interface UseAlibabaTTSReturn {
   loading: boolean;
   error: string | null;
   generate: (params: GenerateAlibabaTTSParams) => Promise<Blob | null>;
+  // Persistent session: one socket across generations, text can arrive in pieces
+  sessionState: AlibabaSessionState;
+  openSession: (options: AlibabaSessionOptions) => Promise<boolean>;
+  appendText: (text: string) => boolean;
+  commitText: () => Promise<Blob | null>;
+  speak: (text: string) => Promise<Blob | null>;
+  closeSession: () => void;
   clearError: () => void;
 }
 
+export const ALIBABA_SAMPLE_RATE = 24000;
+// Requested in session.update: response_format 'pcm' at ALIBABA_SAMPLE_RATE
+export const ALIBABA_PCM_FORMAT: PcmFormat = { sampleRate: ALIBABA_SAMPLE_RATE, channels: 1, encoding: 's16le' };
+
+// How long a commit may wait for the server to start a response before the session is dropped
+const RESPONSE_START_TIMEOUT_MS = 15000;
+// server_commit may answer one commit with several responses; wait this long after the
+// last one is done before the commit resolves
+const RESPONSE_IDLE_MS = 800;
+
+interface AlibabaSession {
+  ws: WebSocket;
+  options: AlibabaSessionOptions;
+  ready: Promise<void>;
+  queue: Promise<unknown>;     // Appends and commits run in order; a commit holds the queue until it resolves
+  collecting: boolean;         // Text was appended since the last commit resolved
+  chunks: Uint8Array[];        // Audio of the utterance in flight
+  responseIds: Set<string>;    // Responses started for the utterance in flight
+  activeResponses: number;
+  flush: ((blob: Blob | null) => void) | null;
+  startTimer: number | null;
+  idleTimer: number | null;
+}
+
+// Match the Python SDK's wire format exactly: event_id first, then the payload,
+// with json.dumps() spacing (the realtime endpoint is picky about both)
+const formatEvent = (payload: Record<string, unknown>): string => {
+  const fullPayload = {
+    event_id: `event_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    ...payload
+  };
+  return JSON.stringify(fullPayload)
+    .replace(/,"/g, ', "')
+    .replace(/":/g, '": ')
+    .replace(/,\{/g, ', {')
+    .replace(/,\[/g, ', [');
+};
+
 /**
  * Custom hook for Alibaba Cloud Qwen-TTS WebSocket-based generation
- * Uses WebSocket for real-time streaming audio synthesis
+ * generate() runs one request per socket; the session API keeps a socket open
+ * across generations, accepts incremental text (as the user types or an LLM streams)
+ * and can hand audio deltas to a callback as they arrive
  */
 export function useAlibabaTTS(): UseAlibabaTTSReturn {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sessionState, setSessionState] = useState<AlibabaSessionState>('closed');
   const wsRef = useRef<WebSocket | null>(null);
+  const sessionRef = useRef<AlibabaSession | null>(null);
 
   const generate = useCallback(async ({ text, voice, service }: GenerateAlibabaTTSParams): Promise<Blob | null> => {
     if (!text.trim()) {
@@ -29,7 +89,8 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
       return null;
     }
 
-    if (!service.endpoint || !service.apiKey) {
+    // The key lives on the server; the browser only talks to the /api/alibaba/tts proxy
+    if (!service.endpoint) {
       setError('Alibaba service configuration missing');
       return null;
     }
@@ -37,6 +98,11 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
     setLoading(true);
     setError(null);
 
+    // Create WebSocket connection to our proxy (not directly to Alibaba)
+    // Use the current host with the proxy path
+    // Voice is set via session.update message, NOT URL parameter
+    const proxyUrl = await apiWebSocketUrl('/api/alibaba/tts');
+
     return new Promise((resolve, reject) => {
       const audioChunks: Uint8Array[] = [];
       let sessionCreated = false;
@@ -45,12 +111,6 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
       let updateWaitTimer: number | null = null;
 
       try {
-        // Create WebSocket connection to our proxy (not directly to Alibaba)
-        // Use the current host with the proxy path
-        // Voice is set via session.update message, NOT URL parameter
-        const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-        const host = window.location.host;
-        const proxyUrl = `${protocol}//${host}/api/alibaba/tts`;
         const ws = new WebSocket(proxyUrl);
         wsRef.current = ws;
 
@@ -74,26 +134,7 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
         }, 30000);
 
         const sendEvent = (payload: Record<string, unknown>) => {
-          const eventId = `event_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-
-          // CRITICAL: Match Python SDK's field order EXACTLY!
-          // Python SDK sends: event_id, type, session (in this order)
-          // JavaScript spread operator preserves order, so we must construct in correct order
-          const fullPayload = {
-            event_id: eventId,
-            ...payload  // This will add type, session, etc. AFTER event_id
-          };
-
-          // CRITICAL: Match Python SDK's JSON format EXACTLY
-          // Python json.dumps() adds spaces after colons and commas
-          // JavaScript JSON.stringify() doesn't by default
-          const jsonString = JSON.stringify(fullPayload)
-            .replace(/,"/g, ', "')      // Add space after comma before quote
-            .replace(/":/g, '": ')       // Add space after colon
-            .replace(/,\{/g, ', {')      // Add space after comma before brace
-            .replace(/,\[/g, ', [');     // Add space after comma before bracket
-
-          ws.send(jsonString);
+          ws.send(formatEvent(payload));
         };
 
         ws.onopen = () => {
@@ -121,7 +162,7 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
                     voice: voiceToUse,
                     mode: 'server_commit',
                     response_format: 'pcm',
-                    sample_rate: 24000
+                    sample_rate: ALIBABA_SAMPLE_RATE
                   };
 
                   sendEvent({
@@ -151,12 +192,7 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
                 case 'response.audio.delta':
                   // Collect audio chunk (base64 encoded)
                   if (data.delta) {
-                    const binaryString = atob(data.delta);
-                    const bytes = new Uint8Array(binaryString.length);
-                    for (let i = 0; i < binaryString.length; i++) {
-                      bytes[i] = binaryString.charCodeAt(i);
-                    }
-                    audioChunks.push(bytes);
+                    audioChunks.push(base64ToBytes(data.delta));
                   }
                   break;
 
@@ -172,17 +208,8 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
                 case 'session.finished':
                   // All audio received, create blob and close
                   if (audioChunks.length > 0) {
-                    // Combine all chunks into a single blob
-                    const totalLength = audioChunks.reduce((sum, chunk) => sum + chunk.length, 0);
-                    const combinedArray = new Uint8Array(totalLength);
-                    let offset = 0;
-                    for (const chunk of audioChunks) {
-                      combinedArray.set(chunk, offset);
-                      offset += chunk.length;
-                    }
-
                     // Create WAV blob (PCM 24kHz mono 16-bit)
-                    const blob = createWavBlob(combinedArray, 24000);
+                    const blob = createWavBlob(audioChunks, ALIBABA_SAMPLE_RATE);
                     resolve(blob);
                   } else {
                     reject(new Error('No audio data received'));
@@ -247,67 +274,333 @@ export function useAlibabaTTS(): UseAlibabaTTSReturn {
     });
   }, []);
 
-  // Helper to create WAV blob from PCM data
-  const createWavBlob = (pcmData: Uint8Array, sampleRate: number): Blob => {
-    const numChannels = 1;
-    const bitsPerSample = 16;
-    const bytesPerSample = bitsPerSample / 8;
-    const blockAlign = numChannels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = pcmData.length;
-    const bufferSize = 44 + dataSize;
-
-    const buffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(buffer);
-
-    // RIFF header
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, bufferSize - 8, true);
-    writeString(view, 8, 'WAVE');
-
-    // fmt chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // chunk size
-    view.setUint16(20, 1, true); // audio format (PCM)
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitsPerSample, true);
-
-    // data chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-
-    // Write PCM data
-    new Uint8Array(buffer, 44).set(pcmData);
-
-    return new Blob([buffer], { type: 'audio/wav' });
+  const clearCommitTimers = (session: AlibabaSession) => {
+    if (session.startTimer !== null) {
+      window.clearTimeout(session.startTimer);
+      session.startTimer = null;
+    }
+    if (session.idleTimer !== null) {
+      window.clearTimeout(session.idleTimer);
+      session.idleTimer = null;
+    }
+  };
+
+  // Resolve the commit once no further response has started within RESPONSE_IDLE_MS
+  const scheduleCommitEnd = (session: AlibabaSession) => {
+    if (session.idleTimer !== null) window.clearTimeout(session.idleTimer);
+    session.idleTimer = window.setTimeout(() => {
+      session.idleTimer = null;
+      if (session.activeResponses === 0) finishCommit(session);
+    }, RESPONSE_IDLE_MS);
   };
 
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
+  // Resolve the utterance in flight; a failed one drops any partial audio
+  const finishCommit = (session: AlibabaSession, failed = false) => {
+    clearCommitTimers(session);
+    session.collecting = false;
+    const resolve = session.flush;
+    if (!resolve) return;
+    session.flush = null;
+    const blob = !failed && session.chunks.length > 0
+      ? createWavBlob(session.chunks, ALIBABA_SAMPLE_RATE)
+      : null;
+    session.chunks = [];
+    session.responseIds.clear();
+    session.activeResponses = 0;
+    setLoading(false);
+    resolve(blob);
+  };
+
+  const closeSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    setSessionState('closed');
+
+    finishCommit(session, true);
+    if (session.ws.readyState === WebSocket.OPEN) {
+      session.ws.send(formatEvent({ type: 'session.finish' }));
     }
+    // Give session.finish a moment to reach the server before hanging up
+    window.setTimeout(() => session.ws.close(), 1000);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Open (or reuse) a session for a voice; resolves once the session is configured
+  const openSession = useCallback(async (options: AlibabaSessionOptions): Promise<boolean> => {
+    const current = sessionRef.current;
+    if (current && current.options.voice === options.voice && current.ws.readyState <= WebSocket.OPEN) {
+      current.options = options;
+      try {
+        await current.ready;
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    // The voice is fixed per session; switching voices means a new session
+    if (current) closeSession();
+
+    if (!options.service.endpoint) {
+      setError('Alibaba service configuration missing');
+      return false;
+    }
+
+    setError(null);
+    setSessionState('connecting');
+    const ws = new WebSocket(await apiWebSocketUrl('/api/alibaba/tts'));
+
+    let markReady: () => void = () => {};
+    let markFailed: (err: Error) => void = () => {};
+    const ready = new Promise<void>((resolve, reject) => {
+      markReady = resolve;
+      markFailed = reject;
+    });
+    // Unhandled if nobody awaits a failed session (e.g. closed while connecting)
+    ready.catch(() => {});
+
+    const session: AlibabaSession = {
+      ws,
+      options,
+      ready,
+      queue: Promise.resolve(),
+      collecting: false,
+      chunks: [],
+      responseIds: new Set(),
+      activeResponses: 0,
+      flush: null,
+      startTimer: null,
+      idleTimer: null
+    };
+    sessionRef.current = session;
+
+    let isReady = false;
+    let updateWaitTimer: number | null = null;
+    const connectTimeout = window.setTimeout(() => {
+      markFailed(new Error('Connection timeout'));
+      ws.close();
+    }, 30000);
+
+    const becomeReady = () => {
+      if (isReady) return;
+      isReady = true;
+      window.clearTimeout(connectTimeout);
+      if (updateWaitTimer) window.clearTimeout(updateWaitTimer);
+      if (sessionRef.current === session) setSessionState('open');
+      markReady();
+    };
+
+    ws.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      let data;
+      try {
+        data = JSON.parse(event.data);
+      } catch (err) {
+        console.error('[Alibaba TTS] JSON parse error:', err);
+        return;
+      }
+
+      switch (data.type) {
+        case 'session.created':
+          ws.send(formatEvent({
+            type: 'session.update',
+            session: {
+              voice: session.options.voice,
+              mode: 'server_commit',
+              response_format: 'pcm',
+              sample_rate: ALIBABA_SAMPLE_RATE
+            }
+          }));
+          updateWaitTimer = window.setTimeout(() => {
+            console.warn('[Alibaba TTS] No session.updated received, using session anyway');
+            becomeReady();
+          }, 500);
+          break;
+
+        case 'session.updated':
+          becomeReady();
+          break;
+
+        case 'response.created':
+          // Only responses to the utterance being appended or committed collect audio;
+          // server_commit can start speaking before the commit
+          if (!session.collecting || !data.response?.id) break;
+          clearCommitTimers(session);
+          session.responseIds.add(data.response.id);
+          session.activeResponses++;
+          break;
+
+        case 'response.audio.delta':
+          // Deltas of responses that were already resolved or given up on are dropped
+          if (data.delta && session.responseIds.has(data.response_id)) {
+            const bytes = base64ToBytes(data.delta);
+            session.chunks.push(bytes);
+            session.options.onAudioDelta?.(bytes);
+          }
+          break;
+
+        case 'response.done':
+          if (!session.responseIds.has(data.response?.id)) break;
+          session.activeResponses = Math.max(0, session.activeResponses - 1);
+          if (session.flush && session.activeResponses === 0) {
+            scheduleCommitEnd(session);
+          }
+          break;
+
+        case 'session.finished':
+          ws.close();
+          break;
+
+        case 'error': {
+          const message = data.error?.message || 'WebSocket error';
+          console.error('[Alibaba TTS] Session error:', message);
+          setError(message);
+          if (!isReady) markFailed(new Error(message));
+          finishCommit(session, true);
+          break;
+        }
+      }
+    };
+
+    ws.onerror = (event) => {
+      console.error('[Alibaba TTS] Session WebSocket error:', event);
+      if (!isReady) markFailed(new Error('WebSocket connection error'));
+    };
+
+    ws.onclose = () => {
+      window.clearTimeout(connectTimeout);
+      if (updateWaitTimer) window.clearTimeout(updateWaitTimer);
+      if (!isReady) markFailed(new Error('Connection closed before the session was ready'));
+      finishCommit(session, true);
+      if (sessionRef.current === session) {
+        // Server-side idle timeout or network loss: the next openSession reconnects
+        sessionRef.current = null;
+        setSessionState('closed');
+      }
+    };
+
+    try {
+      await ready;
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to open session');
+      if (sessionRef.current === session) {
+        sessionRef.current = null;
+        setSessionState('closed');
+      }
+      return false;
+    }
+  }, [closeSession]);
+
+  // Run a session operation after everything queued before it
+  const enqueue = <T>(session: AlibabaSession, task: () => T | Promise<T>): Promise<T> => {
+    const result = session.queue.then(task);
+    session.queue = result.catch(() => {});
+    return result;
+  };
+
+  const isLive = (session: AlibabaSession) =>
+    sessionRef.current === session && session.ws.readyState === WebSocket.OPEN;
+
+  // Commit the buffered text and collect the audio of every response it (and the appends) started
+  const commit = (session: AlibabaSession): Promise<Blob | null> => {
+    if (!isLive(session)) {
+      setError('No open Alibaba session');
+      return Promise.resolve(null);
+    }
+    // Nothing appended since the last commit: no response will follow
+    if (!session.collecting) return Promise.resolve(null);
+
+    setLoading(true);
+    setError(null);
+    return new Promise(resolve => {
+      session.flush = resolve;
+      session.ws.send(formatEvent({ type: 'input_text_buffer.commit' }));
+
+      if (session.responseIds.size > 0) {
+        // server_commit already spoke the appended text; wait for any final response
+        if (session.activeResponses === 0) scheduleCommitEnd(session);
+        return;
+      }
+
+      // A response that never starts would leave its audio to the next utterance: drop the session instead
+      session.startTimer = window.setTimeout(() => {
+        session.startTimer = null;
+        console.warn('[Alibaba TTS] No response to commit, closing session');
+        setError('The realtime session did not respond');
+        finishCommit(session, true);
+        if (sessionRef.current === session) closeSession();
+        else session.ws.close();
+      }, RESPONSE_START_TIMEOUT_MS);
+    });
   };
 
+  // Add text to the session's input buffer; the server starts speaking once it has enough.
+  // Text appended while an earlier commit is still speaking waits for that commit to resolve.
+  const appendText = useCallback((text: string): boolean => {
+    const session = sessionRef.current;
+    if (!session || session.ws.readyState !== WebSocket.OPEN) {
+      setError('No open Alibaba session');
+      return false;
+    }
+    if (!text) return true;
+    enqueue(session, () => {
+      if (!isLive(session)) return;
+      session.collecting = true;
+      session.ws.send(formatEvent({ type: 'input_text_buffer.append', text }));
+    });
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Synthesize whatever is still buffered; resolves with the audio of this utterance only
+  const commitText = useCallback((): Promise<Blob | null> => {
+    const session = sessionRef.current;
+    if (!session) {
+      setError('No open Alibaba session');
+      return Promise.resolve(null);
+    }
+    return enqueue(session, () => commit(session));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // One complete utterance over the open session
+  // Operations are queued per session, so concurrent callers (e.g. long-form segments) each get only their own audio
+  const speak = useCallback((text: string): Promise<Blob | null> => {
+    if (!text.trim()) {
+      setError('Text cannot be empty');
+      return Promise.resolve(null);
+    }
+    if (!appendText(text)) return Promise.resolve(null);
+    return commitText();
+  }, [appendText, commitText]);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
-  // Cleanup on unmount
-  useState(() => {
+  // Close sockets on unmount
+  useEffect(() => {
     return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
+      wsRef.current?.close();
+      const session = sessionRef.current;
+      if (session) {
+        sessionRef.current = null;
+        session.ws.close();
       }
     };
-  });
+  }, []);
 
   return {
     loading,
     error,
     generate,
+    sessionState,
+    openSession,
+    appendText,
+    commitText,
+    speak,
+    closeSession,
     clearError
   };
 }
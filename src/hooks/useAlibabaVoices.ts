@@ -1,4 +1,5 @@
 import { useState, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
 
 export interface AlibabaVoice {
   voice: string;
@@ -6,6 +7,23 @@ export interface AlibabaVoice {
   target_model: string;
 }
 
+// The list API caps page_size; larger accounts are fetched page by page
+const LIST_PAGE_SIZE = 100;
+const MAX_LIST_PAGES = 50;
+
+/**
+ * Extract the preferred_name from a voice ID: qwen-tts-vc-{name}-voice-{timestamp}-{hash}
+ */
+export const getPreferredName = (voiceId: string): string => {
+  const match = voiceId.match(/qwen-tts-vc-(.+?)-voice-/);
+  return match ? match[1] : voiceId;
+};
+
+export interface DeleteVoicesResult {
+  deleted: string[];
+  failed: string[];
+}
+
 interface CreateVoiceParams {
   file: File;
   preferredName: string;
@@ -19,6 +37,7 @@ interface UseAlibabaVoicesReturn {
   createVoice: (params: CreateVoiceParams) => Promise<string | null>;
   listVoices: () => Promise<void>;
   deleteVoice: (voiceId: string) => Promise<boolean>;
+  deleteVoices: (voiceIds: string[]) => Promise<DeleteVoicesResult>;
   clearError: () => void;
 }
 
@@ -65,7 +84,7 @@ export function useAlibabaVoices(): UseAlibabaVoicesReturn {
       // Convert to Base64 data URI
       const audioData = await fileToBase64(file);
 
-      const response = await fetch('/api/alibaba/voice/create', {
+      const response = await apiFetch('/api/alibaba/voice/create', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -99,28 +118,35 @@ export function useAlibabaVoices(): UseAlibabaVoicesReturn {
     }
   }, [fileToBase64]);
 
-  // List all voices for the account
+  // List all voices for the account, following pages until a short one comes back
   const listVoices = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch('/api/alibaba/voice/list', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pageSize: 100,
-          pageIndex: 0
-        })
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || `Server returned ${response.status}`);
+      const voiceList: AlibabaVoice[] = [];
+
+      for (let pageIndex = 0; pageIndex < MAX_LIST_PAGES; pageIndex++) {
+        const response = await apiFetch('/api/alibaba/voice/list', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            pageSize: LIST_PAGE_SIZE,
+            pageIndex
+          })
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || `Server returned ${response.status}`);
+        }
+
+        const page: AlibabaVoice[] = data.output?.voice_list || [];
+        voiceList.push(...page);
+        if (page.length < LIST_PAGE_SIZE) break;
       }
 
-      const voiceList = data.output?.voice_list || [];
       setVoices(voiceList);
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to list voices';
@@ -137,7 +163,7 @@ export function useAlibabaVoices(): UseAlibabaVoicesReturn {
     setError(null);
 
     try {
-      const response = await fetch('/api/alibaba/voice/delete', {
+      const response = await apiFetch('/api/alibaba/voice/delete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ voice: voiceId })
@@ -161,6 +187,38 @@ export function useAlibabaVoices(): UseAlibabaVoicesReturn {
     }
   }, [listVoices]);
 
+  // Delete several voices one after another, then refresh the list once
+  const deleteVoices = useCallback(async (voiceIds: string[]): Promise<DeleteVoicesResult> => {
+    setLoading(true);
+    setError(null);
+
+    const result: DeleteVoicesResult = { deleted: [], failed: [] };
+    for (const voiceId of voiceIds) {
+      try {
+        const response = await apiFetch('/api/alibaba/voice/delete', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ voice: voiceId })
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || data.message || `Server returned ${response.status}`);
+        }
+        result.deleted.push(voiceId);
+      } catch (err: unknown) {
+        console.error(`[Alibaba Voices] Failed to delete ${voiceId}:`, err);
+        result.failed.push(voiceId);
+      }
+    }
+
+    await listVoices();
+    if (result.failed.length > 0) {
+      setError(`Failed to delete ${result.failed.length} of ${voiceIds.length} voices`);
+    }
+    setLoading(false);
+    return result;
+  }, [listVoices]);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -172,6 +230,7 @@ export function useAlibabaVoices(): UseAlibabaVoicesReturn {
     createVoice,
     listVoices,
     deleteVoice,
+    deleteVoices,
     clearError
   };
 }
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { analyzeReferenceAudio, AudioAnalysis } from '../utils/audioQuality';
+
+/**
+ * Custom hook that analyzes a reference audio file whenever it changes
+ */
+export function useAudioAnalysis(file: File | null) {
+  const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAnalysis(null);
+    setError(null);
+    if (!file) return;
+
+    // Ignore results for a file that has since been replaced
+    let cancelled = false;
+    setAnalyzing(true);
+
+    analyzeReferenceAudio(file)
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch((err: unknown) => {
+        console.error('[Audio Analysis] Failed to analyze file:', err);
+        if (!cancelled) setError('Could not decode this file for analysis. It may be corrupt or in an unsupported format.');
+      })
+      .finally(() => {
+        if (!cancelled) setAnalyzing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setAnalyzing(false);
+    };
+  }, [file]);
+
+  return { analysis, analyzing, error };
+}
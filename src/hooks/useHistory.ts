@@ -1,82 +1,223 @@
-import { useState, useEffect } from 'react';
-import { get, set } from 'idb-keyval';
-
-export interface HistoryItem {
-  id: string;
-  text: string;
-  voice: string;
-  blob: Blob;
-  timestamp: number;
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  HistoryItem,
+  HistoryFilters,
+  EvictionPolicy,
+  LibraryStats,
+  putHistoryItem,
+  deleteHistoryItems,
+  clearHistoryItems,
+  queryHistoryItems,
+  matchesHistoryFilters,
+  getAllHistoryRecords,
+  getLibraryStats,
+  selectEvictions,
+  migrateLegacyHistory,
+} from '../utils/historyDb';
+
+export type { HistoryItem, GenerationMode, HistoryFilters, EvictionPolicy, EvictionStrategy, LibraryStats } from '../utils/historyDb';
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const PAGE_SIZE = 20;
+const EVICTION_KEY = 'tts_history_eviction';
+
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = {
+  strategy: 'none',
+  maxItems: 500,
+  maxMegabytes: 500,
+};
+
+export interface AddItemResult {
+  evicted: string[];       // Ids dropped to make room; callers release their object URLs
+  quotaExceeded: boolean;  // Storage is full and the policy forbids automatic deletion: the clip was not saved
 }
 
-const DB_KEY = 'tts-history';
-const MAX_HISTORY = 5;
+const EMPTY_STATS: LibraryStats = { count: 0, bytes: 0, voices: [], services: [] };
 
 /**
- * Custom hook to manage TTS history with IndexedDB persistence
- * Uses atomic operations and batch updates for better performance
+ * Custom hook to manage the TTS history library with IndexedDB persistence
+ * Items are stored one record per clip with blobs in a separate store;
+ * the list is loaded page by page and can be searched and filtered
  */
 export function useHistory() {
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [stats, setStats] = useState<LibraryStats>(EMPTY_STATS);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [evictionPolicy, setEvictionPolicy] = useState<EvictionPolicy>(() => {
+    const saved = localStorage.getItem(EVICTION_KEY);
+    return saved ? { ...DEFAULT_EVICTION_POLICY, ...JSON.parse(saved) } : DEFAULT_EVICTION_POLICY;
+  });
+  const migratedRef = useRef(false);
 
-  // Load history on mount
   useEffect(() => {
-    loadHistory();
-  }, []);
+    localStorage.setItem(EVICTION_KEY, JSON.stringify(evictionPolicy));
+  }, [evictionPolicy]);
 
-  const loadHistory = async () => {
+  const refreshStats = useCallback(async () => {
     try {
-      const val = await get<HistoryItem[]>(DB_KEY);
-      if (val) {
-        setHistory(val);
+      setStats(await getLibraryStats());
+      if (navigator.storage?.estimate) {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        setStorage({ usage, quota });
       }
     } catch (error) {
-      console.error('Failed to load history:', error);
+      console.error('Failed to read library stats:', error);
+    }
+  }, []);
+
+  // (Re)load the first page whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadFirstPage = async () => {
+      setIsLoading(true);
+      try {
+        if (!migratedRef.current) {
+          migratedRef.current = true;
+          await migrateLegacyHistory();
+        }
+        const { items, hasMore: more } = await queryHistoryItems(filters, null, PAGE_SIZE);
+        if (!cancelled) {
+          setHistory(items);
+          setHasMore(more);
+        }
+      } catch (error) {
+        console.error('Failed to load history:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadFirstPage();
+    refreshStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, refreshStats]);
+
+  const loadMore = useCallback(async () => {
+    const last = history[history.length - 1];
+    setIsLoading(true);
+    try {
+      const after = last ? { timestamp: last.timestamp, id: last.id } : null;
+      const { items, hasMore: more } = await queryHistoryItems(filters, after, PAGE_SIZE);
+      setHistory(prev => [...prev, ...items]);
+      setHasMore(more);
+    } catch (error) {
+      console.error('Failed to load more history:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [filters, history]);
 
-  const addItem = async (item: HistoryItem): Promise<HistoryItem[]> => {
-    const newHistory = [item, ...history].slice(0, MAX_HISTORY);
-    setHistory(newHistory);
+  /**
+   * Add a clip and apply the eviction policy.
+   * Clips are only deleted automatically when the policy allows it; with 'none' a full
+   * store is reported back instead so the user can clean up.
+   */
+  const addItem = async (item: HistoryItem): Promise<AddItemResult> => {
+    // Clips outside the active search or filters are saved but not listed
+    if (matchesHistoryFilters(item, filters)) {
+      setHistory(prev => [item, ...prev]);
+    }
 
+    let evicted: string[] = [];
+    let quotaExceeded = false;
     try {
-      await set(DB_KEY, newHistory);
+      try {
+        await putHistoryItem(item);
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) {
+          throw error;
+        }
+        if (evictionPolicy.strategy === 'none') {
+          quotaExceeded = true;
+          throw error;
+        }
+        // Out of quota: the policy allows eviction, so drop the oldest clips once and retry
+        const oldest = (await getAllHistoryRecords()).slice(-5).map(r => r.id);
+        await deleteHistoryItems(oldest);
+        evicted = oldest;
+        await putHistoryItem(item);
+      }
+
+      const policyEvictions = selectEvictions(await getAllHistoryRecords(), evictionPolicy, item.id);
+      await deleteHistoryItems(policyEvictions);
+      evicted = [...evicted, ...policyEvictions];
     } catch (error) {
       console.error('Failed to save history:', error);
     }
 
-    return newHistory;
+    if (evicted.length > 0) {
+      setHistory(prev => prev.filter(h => !evicted.includes(h.id)));
+    }
+    refreshStats();
+    return { evicted, quotaExceeded };
   };
 
   const removeItem = async (id: string): Promise<HistoryItem | null> => {
     const itemToRemove = history.find(h => h.id === id);
-    const newHistory = history.filter(h => h.id !== id);
-    setHistory(newHistory);
+    setHistory(prev => prev.filter(h => h.id !== id));
 
     try {
-      await set(DB_KEY, newHistory);
+      await deleteHistoryItems([id]);
     } catch (error) {
       console.error('Failed to update history:', error);
     }
 
+    refreshStats();
     return itemToRemove || null;
   };
 
   const clearHistory = async () => {
     setHistory([]);
+    setHasMore(false);
     try {
-      await set(DB_KEY, []);
+      await clearHistoryItems();
     } catch (error) {
       console.error('Failed to clear history:', error);
     }
+    refreshStats();
+  };
+
+  /**
+   * Apply a new eviction policy immediately and return the evicted ids
+   */
+  const updateEvictionPolicy = async (policy: EvictionPolicy): Promise<string[]> => {
+    setEvictionPolicy(policy);
+
+    try {
+      const evicted = selectEvictions(await getAllHistoryRecords(), policy);
+      if (evicted.length > 0) {
+        await deleteHistoryItems(evicted);
+        setHistory(prev => prev.filter(h => !evicted.includes(h.id)));
+        refreshStats();
+      }
+      return evicted;
+    } catch (error) {
+      console.error('Failed to apply eviction policy:', error);
+      return [];
+    }
   };
 
   return {
     history,
     isLoading,
+    hasMore,
+    loadMore,
+    filters,
+    setFilters,
+    stats,
+    storage,
+    evictionPolicy,
+    updateEvictionPolicy,
     addItem,
     removeItem,
     clearHistory,
@@ -0,0 +1,176 @@
+import { useState, useCallback, useRef } from 'react';
+import { splitTextIntoSegments } from '../utils/textSegments';
+import { stitchAudioBlobs } from '../utils/audio';
+
+export type SegmentStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface LongFormSegment {
+  index: number;
+  text: string;
+  status: SegmentStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface LongFormSettings {
+  concurrency: number;
+  silenceMs: number;
+  maxChars: number;
+}
+
+interface GenerateLongFormParams extends Partial<LongFormSettings> {
+  text: string;
+  // Synthesizes one segment against the selected service; null or a throw marks it failed
+  synthesize: (segmentText: string) => Promise<Blob | null>;
+  maxRetries?: number;
+}
+
+interface LongFormRun {
+  synthesize: (segmentText: string) => Promise<Blob | null>;
+  silenceMs: number;
+  maxRetries: number;
+  blobs: (Blob | null)[];
+}
+
+export const DEFAULT_LONG_FORM_SETTINGS: LongFormSettings = {
+  concurrency: 2,
+  silenceMs: 350,
+  maxChars: 600,
+};
+
+/**
+ * Custom hook for long-form synthesis
+ * Splits text at sentence/paragraph boundaries, synthesizes segments with bounded
+ * concurrency, retries failures per segment and stitches the result into one WAV
+ */
+export function useLongFormTTS() {
+  const [segments, setSegments] = useState<LongFormSegment[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<LongFormRun | null>(null);
+
+  const updateSegment = useCallback((index: number, patch: Partial<LongFormSegment>) => {
+    setSegments(prev => prev.map(s => (s.index === index ? { ...s, ...patch } : s)));
+  }, []);
+
+  // Synthesize one segment, retrying up to maxRetries times before marking it failed
+  const runSegment = useCallback(async (run: LongFormRun, index: number, text: string): Promise<boolean> => {
+    for (let attempt = 1; attempt <= run.maxRetries + 1; attempt++) {
+      updateSegment(index, { status: 'running', attempts: attempt, error: undefined });
+      try {
+        const blob = await run.synthesize(text);
+        if (!blob) throw new Error('No audio returned');
+        run.blobs[index] = blob;
+        updateSegment(index, { status: 'done' });
+        return true;
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : 'Segment synthesis failed';
+        console.warn(`[LongForm] Segment ${index + 1} attempt ${attempt} failed:`, message);
+        updateSegment(index, { status: 'failed', error: message });
+      }
+    }
+    return false;
+  }, [updateSegment]);
+
+  // Stitch once every segment has audio; otherwise report which ones still need a retry
+  const finish = useCallback(async (run: LongFormRun): Promise<Blob | null> => {
+    const failed = run.blobs.filter(b => !b).length;
+    if (failed > 0) {
+      setError(`${failed} segment${failed === 1 ? '' : 's'} failed. Retry them to finish the audio.`);
+      return null;
+    }
+
+    try {
+      const blob = await stitchAudioBlobs(run.blobs as Blob[], { silenceMs: run.silenceMs });
+      setError(null);
+      return blob;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Failed to stitch audio';
+      console.error('[LongForm] Stitching failed:', err);
+      setError(message);
+      return null;
+    }
+  }, []);
+
+  const generate = useCallback(async ({
+    text,
+    synthesize,
+    concurrency = DEFAULT_LONG_FORM_SETTINGS.concurrency,
+    silenceMs = DEFAULT_LONG_FORM_SETTINGS.silenceMs,
+    maxChars = DEFAULT_LONG_FORM_SETTINGS.maxChars,
+    maxRetries = 2,
+  }: GenerateLongFormParams): Promise<Blob | null> => {
+    const parts = splitTextIntoSegments(text, { maxChars });
+    if (parts.length === 0) {
+      setError('Text cannot be empty');
+      return null;
+    }
+
+    const run: LongFormRun = {
+      synthesize,
+      silenceMs,
+      maxRetries,
+      blobs: parts.map(() => null),
+    };
+    runRef.current = run;
+
+    setError(null);
+    setIsRunning(true);
+    setSegments(parts.map((part, index) => ({ index, text: part, status: 'pending', attempts: 0 })));
+
+    try {
+      // Simple worker pool: each worker pulls the next pending segment index
+      let next = 0;
+      const worker = async () => {
+        while (next < parts.length) {
+          const index = next++;
+          await runSegment(run, index, parts[index]);
+        }
+      };
+      const workers = Math.max(1, Math.min(concurrency, parts.length));
+      await Promise.all(Array.from({ length: workers }, worker));
+
+      return await finish(run);
+    } finally {
+      setIsRunning(false);
+    }
+  }, [runSegment, finish]);
+
+  const retrySegment = useCallback(async (index: number): Promise<Blob | null> => {
+    const run = runRef.current;
+    const segment = segments.find(s => s.index === index);
+    if (!run || !segment) return null;
+
+    setError(null);
+    setIsRunning(true);
+    try {
+      const ok = await runSegment(run, index, segment.text);
+      if (!ok) {
+        setError(`Segment ${index + 1} failed again`);
+        return null;
+      }
+      return await finish(run);
+    } finally {
+      setIsRunning(false);
+    }
+  }, [segments, runSegment, finish]);
+
+  const reset = useCallback(() => {
+    runRef.current = null;
+    setSegments([]);
+    setError(null);
+  }, []);
+
+  const completed = segments.filter(s => s.status === 'done').length;
+  const progress = segments.length > 0 ? Math.round((completed / segments.length) * 100) : 0;
+
+  return {
+    segments,
+    isRunning,
+    progress,
+    error,
+    generate,
+    retrySegment,
+    reset,
+  };
+}
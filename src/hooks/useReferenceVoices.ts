@@ -0,0 +1,132 @@
+import { useState, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+import { CatalogVoice } from './useVoices';
+
+export interface ReviewVoice extends CatalogVoice {
+  previewUrl: string | null; // Short-lived link to the uploaded reference clip
+}
+
+interface UploadVoiceParams {
+  file: File;
+  preferredName: string;
+  serviceId: string;
+}
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  const data = await response.json().catch(() => null);
+  return data?.error || fallback;
+};
+
+/**
+ * Custom hook for reference voice uploads to catalog services (EchoTTS)
+ * Creators upload a clip through a presigned S3 URL; admins review pending voices
+ */
+export function useReferenceVoices() {
+  const [pendingVoices, setPendingVoices] = useState<ReviewVoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Returns the id of the new pending voice, or null (error is set)
+  const uploadVoice = useCallback(async ({ file, preferredName, serviceId }: UploadVoiceParams): Promise<string | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Step 1: validate name and quota, get a presigned PUT URL
+      const presignResponse = await apiFetch('/api/voices/uploads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: preferredName,
+          contentType: file.type,
+          size: file.size,
+          service: serviceId
+        })
+      });
+      if (!presignResponse.ok) {
+        throw new Error(await readError(presignResponse, 'Failed to prepare upload'));
+      }
+      const { id, displayName, key, uploadUrl } = await presignResponse.json();
+
+      // Step 2: upload straight to S3 (no app credentials on this request)
+      const uploadResponse = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type },
+        body: file
+      });
+      if (!uploadResponse.ok) {
+        throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
+      }
+
+      // Step 3: register the pending voice
+      const registerResponse = await apiFetch('/api/voices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, displayName, key, service: serviceId })
+      });
+      if (!registerResponse.ok) {
+        throw new Error(await readError(registerResponse, 'Failed to register voice'));
+      }
+
+      console.log(`[Reference Voices] Uploaded ${id}, awaiting approval`);
+      return id;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to upload voice');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadPendingVoices = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch('/api/voices/review');
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load pending voices'));
+      }
+      const data = await response.json();
+      setPendingVoices(data.voices || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load pending voices');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const reviewVoice = useCallback(async (id: string, decision: 'approve' | 'deny'): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`/api/voices/${encodeURIComponent(id)}/${decision}`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readError(response, `Failed to ${decision} voice`));
+      }
+      setPendingVoices(prev => prev.filter(v => v.id !== id));
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : `Failed to ${decision} voice`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    pendingVoices,
+    loading,
+    error,
+    uploadVoice,
+    loadPendingVoices,
+    approveVoice: (id: string) => reviewVoice(id, 'approve'),
+    denyVoice: (id: string) => reviewVoice(id, 'deny'),
+    clearError,
+  };
+}
@@ -1,14 +1,137 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { apiFetch } from '../utils/api';
+import { TranscriptTimestamps } from '../utils/subtitles';
 
 export interface TranscriptionResult {
   text: string;
-  timestamps?: {
-    word?: Array<{ start: number; end: number; text: string }>;
-    segment?: Array<{ start: number; end: number; segment: string }>;
-  };
+  timestamps?: TranscriptTimestamps;
   success: boolean;
 }
 
+export type STTJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Server-side transcription job (see /api/stt/jobs in server.js)
+export interface STTJob {
+  jobId: string;
+  uuid: string;
+  status: STTJobStatus;
+  progress: number | null; // 0..1 when the backend reports it
+  createdAt: number;
+  updatedAt: number;
+  result: TranscriptionResult | null;
+  error: string | null;
+}
+
+// Kept in localStorage while a job runs so a reload can pick it back up
+export interface PendingSTTJob {
+  jobId: string;
+  uuid: string;
+  filename: string;
+  includeTimestamps: boolean;
+  submittedAt: number;
+}
+
+const PENDING_JOB_KEY = 'stt_pending_job';
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_MAX_ERRORS = 5;
+// Matches the server's retention of finished jobs; older pending ids are dropped
+const PENDING_JOB_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+const JOB_NOT_FOUND_MESSAGE = 'This transcription job is no longer available. Please transcribe the file again.';
+
+const isFinished = (job: STTJob) => job.status === 'completed' || job.status === 'failed';
+
+const loadPendingJob = (): PendingSTTJob | null => {
+  try {
+    const saved: PendingSTTJob | null = JSON.parse(localStorage.getItem(PENDING_JOB_KEY) || 'null');
+    if (saved && Date.now() - saved.submittedAt < PENDING_JOB_MAX_AGE_MS) return saved;
+  } catch {
+    // Fall through and drop the unreadable entry
+  }
+  localStorage.removeItem(PENDING_JOB_KEY);
+  return null;
+};
+
+const savePendingJob = (job: PendingSTTJob | null) => {
+  if (job) {
+    localStorage.setItem(PENDING_JOB_KEY, JSON.stringify(job));
+  } else {
+    localStorage.removeItem(PENDING_JOB_KEY);
+  }
+};
+
+const jobRequestError = async (response: Response): Promise<Error> => {
+  if (response.status === 404) return new Error(JOB_NOT_FOUND_MESSAGE);
+  const errorData = await response.json().catch(() => ({ error: 'Failed to check transcription status' }));
+  return new Error(errorData.error || 'Failed to check transcription status');
+};
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Read the job's server-sent events through fetch (EventSource cannot send the auth header)
+const streamJobEvents = async (jobId: string, signal: AbortSignal, onUpdate: (job: STTJob) => void): Promise<STTJob> => {
+  const response = await apiFetch(`/api/stt/jobs/${encodeURIComponent(jobId)}/events`, {
+    headers: { Accept: 'text/event-stream' },
+    signal,
+  });
+  if (!response.ok || !response.body) throw await jobRequestError(response);
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) continue; // Heartbeat comment
+
+      const job: STTJob = JSON.parse(data);
+      onUpdate(job);
+      if (isFinished(job)) {
+        reader.cancel().catch(() => {});
+        return job;
+      }
+    }
+  }
+  throw new Error('Job event stream ended before the job finished');
+};
+
+const pollJob = async (jobId: string, signal: AbortSignal, onUpdate: (job: STTJob) => void): Promise<STTJob> => {
+  let errors = 0;
+  for (;;) {
+    try {
+      const response = await apiFetch(`/api/stt/jobs/${encodeURIComponent(jobId)}`, { signal });
+      if (!response.ok) {
+        // Only connection problems are retried; a 404 or auth failure will not go away
+        throw Object.assign(await jobRequestError(response), { fatal: true });
+      }
+      const job: STTJob = await response.json();
+      errors = 0;
+      onUpdate(job);
+      if (isFinished(job)) return job;
+    } catch (err) {
+      if (signal.aborted || (err as { fatal?: boolean }).fatal || ++errors >= JOB_POLL_MAX_ERRORS) throw err;
+      console.warn(`[STT] Status check failed (${errors}/${JOB_POLL_MAX_ERRORS}):`, err);
+    }
+    await delay(JOB_POLL_INTERVAL_MS, signal);
+  }
+};
+
 export interface PresignedUrlResponse {
   uuid: string;
   presignedUrl: string;
@@ -18,14 +141,27 @@ export interface PresignedUrlResponse {
 export interface UseSTTReturn {
   loading: boolean;
   error: string | null;
+  job: STTJob | null;               // Latest state of the job being followed
+  pendingJob: PendingSTTJob | null; // Submitted and not finished yet, possibly before a reload
   getPresignedUrl: (filename: string, contentType: string) => Promise<PresignedUrlResponse>;
-  transcribe: (uuid: string, includeTimestamps: boolean) => Promise<TranscriptionResult>;
+  transcribe: (uuid: string, includeTimestamps: boolean, filename?: string) => Promise<TranscriptionResult>;
+  waitForJob: (jobId: string) => Promise<TranscriptionResult>;
+  stopWaiting: () => void;
+  discardPendingJob: () => void;
   clearError: () => void;
 }
 
+/**
+ * Custom hook for STT uploads and transcription jobs
+ * Transcription is asynchronous: the server returns a job id at once and the hook
+ * follows it over SSE (or polling) until the result is ready
+ */
 export function useSTT(): UseSTTReturn {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<STTJob | null>(null);
+  const [pendingJob, setPendingJob] = useState<PendingSTTJob | null>(loadPendingJob);
+  const waitAbortRef = useRef<AbortController | null>(null);
 
   /**
    * Get presigned URL for S3 upload
@@ -36,7 +172,7 @@ export function useSTT(): UseSTTReturn {
       setError(null);
 
       try {
-        const response = await fetch('/api/stt/presign', {
+        const response = await apiFetch('/api/stt/presign', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -62,18 +198,80 @@ export function useSTT(): UseSTTReturn {
     []
   );
 
+  // Follow a job until it finishes: SSE first, polling if the stream cannot be read
+  const waitForJob = useCallback(
+    async (jobId: string): Promise<TranscriptionResult> => {
+      waitAbortRef.current?.abort();
+      const controller = new AbortController();
+      waitAbortRef.current = controller;
+
+      setLoading(true);
+      setError(null);
+
+      const onUpdate = (update: STTJob) => {
+        if (!controller.signal.aborted) setJob(update);
+      };
+
+      try {
+        let finished: STTJob;
+        try {
+          finished = await streamJobEvents(jobId, controller.signal, onUpdate);
+        } catch (err) {
+          if (controller.signal.aborted) throw err;
+          console.warn('[STT] Job event stream unavailable, polling instead:', err);
+          finished = await pollJob(jobId, controller.signal, onUpdate);
+        }
+
+        savePendingJob(null);
+        setPendingJob(null);
+
+        if (finished.status === 'failed' || !finished.result) {
+          throw new Error(finished.error || 'Transcription failed');
+        }
+
+        console.log(`[STT] Transcription complete:`, finished.result);
+        return {
+          text: finished.result.text || '',
+          timestamps: finished.result.timestamps,
+          success: finished.result.success !== false,
+        };
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          const errorMessage = err instanceof Error ? err.message : 'Transcription failed';
+          console.error('[STT] Transcription error:', err);
+          setError(errorMessage);
+          // A job the server no longer knows cannot be resumed
+          if (err instanceof Error && err.message === JOB_NOT_FOUND_MESSAGE) {
+            savePendingJob(null);
+            setPendingJob(null);
+          }
+        }
+        throw err;
+      } finally {
+        if (waitAbortRef.current === controller) {
+          waitAbortRef.current = null;
+          setLoading(false);
+        }
+      }
+    },
+    []
+  );
+
   /**
-   * Transcribe audio file
+   * Submit a transcription job and wait for its result
+   * The job id is kept in localStorage so a reload can resume waiting for it
    */
   const transcribe = useCallback(
-    async (uuid: string, includeTimestamps: boolean): Promise<TranscriptionResult> => {
+    async (uuid: string, includeTimestamps: boolean, filename = ''): Promise<TranscriptionResult> => {
       setLoading(true);
       setError(null);
+      setJob(null);
 
+      let submitted: STTJob;
       try {
         console.log(`[STT] Starting transcription for UUID: ${uuid}, timestamps: ${includeTimestamps}`);
 
-        const response = await fetch('/api/stt/transcribe', {
+        const response = await apiFetch('/api/stt/jobs', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -89,27 +287,54 @@ export function useSTT(): UseSTTReturn {
           throw new Error(errorData.error || 'Transcription failed');
         }
 
-        const result = await response.json();
-
-        console.log(`[STT] Transcription complete:`, result);
-
-        return {
-          text: result.text || '',
-          timestamps: result.timestamps,
-          success: result.success !== false,
-        };
+        submitted = await response.json();
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Transcription failed';
         console.error('[STT] Transcription error:', err);
         setError(errorMessage);
-        throw err;
-      } finally {
         setLoading(false);
+        throw err;
       }
+
+      console.log(`[STT] Job ${submitted.jobId} ${submitted.status}`);
+      setJob(submitted);
+      const pending: PendingSTTJob = {
+        jobId: submitted.jobId,
+        uuid,
+        filename,
+        includeTimestamps,
+        submittedAt: Date.now(),
+      };
+      savePendingJob(pending);
+      setPendingJob(pending);
+
+      return waitForJob(submitted.jobId);
     },
-    []
+    [waitForJob]
   );
 
+  /**
+   * Stop waiting for a job; it keeps running on the server and stays resumable
+   */
+  const stopWaiting = useCallback(() => {
+    waitAbortRef.current?.abort();
+    waitAbortRef.current = null;
+    setLoading(false);
+  }, []);
+
+  /**
+   * Forget the pending job, e.g. when the user starts over
+   */
+  const discardPendingJob = useCallback(() => {
+    stopWaiting();
+    savePendingJob(null);
+    setPendingJob(null);
+    setJob(null);
+  }, [stopWaiting]);
+
+  // Stop following the job on unmount
+  useEffect(() => () => waitAbortRef.current?.abort(), []);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -117,8 +342,13 @@ export function useSTT(): UseSTTReturn {
   return {
     loading,
     error,
+    job,
+    pendingJob,
     getPresignedUrl,
     transcribe,
+    waitForJob,
+    stopWaiting,
+    discardPendingJob,
     clearError,
   };
 }
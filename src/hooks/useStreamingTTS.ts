@@ -1,94 +1,273 @@
-import { useState } from 'react';
-import { getServiceById } from '../config';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { getConfig, getAuthHeaders } from '../config';
+import { apiFetch } from '../utils/api';
+import { createStreamPlayer, PcmPlayer, PcmChunk } from '../utils/pcmPlayer';
+import { parsePcmFormat, bytesPerFrame, PcmFormat } from '../utils/pcm';
+import { createWavBlobFromPcm } from '../utils/wav';
+import { useAlibabaTTS, ALIBABA_PCM_FORMAT } from './useAlibabaTTS';
 
 /**
  * useStreamingTTS Hook
  *
  * Handles streaming TTS requests via Server-Sent Events (SSE).
  * Receives audio chunks from Tier 2 (Middleware) and plays via Web Audio API.
+ * Realtime (Alibaba) services stream response.audio.delta PCM over the WebSocket
+ * session and are played through the same PCM player, which decodes and buffers
+ * in an AudioWorklet where available.
  *
  * Note: No LinaCodec decoding happens here - all decoding is done by Tier 2.
  */
 
+// The streamed audio, kept alongside playback so it can be saved like a batch result
+export interface StreamingResult {
+  blob: Blob;        // WAV
+  sampleRate: number;
+}
+
 interface StreamingTTSOptions {
   text: string;
   voice: string;
   serviceId: string;
   onChunk?: (audioChunk: AudioBuffer, chunkNumber: number) => void;
-  onComplete?: (totalDuration: number) => void;
+  onComplete?: (totalDuration: number, result: StreamingResult) => void;
   onError?: (error: Error) => void;
   onProgress?: (progress: number) => void;
 }
 
 interface StreamingTTSState {
-  isStreaming: boolean;
+  isStreaming: boolean; // Request in flight
+  isPlaying: boolean;   // Scheduled audio not finished yet (outlives the request)
+  isPaused: boolean;
   progress: number;
   chunksReceived: number;
   totalDuration: number;
+  stats: StreamingStats | null;
+}
+
+// Live playback health of the current stream
+export interface StreamingStats {
+  underruns: number;
+  bufferedSeconds: number;          // Received but not played yet
+  prebufferSeconds: number;         // Adaptive jitter buffer target
+  timeToFirstAudioMs: number | null;
 }
 
+// Transport for the live stream
+export interface StreamingController {
+  pause: () => Promise<void>;  // Suspend the AudioContext; the download keeps going
+  resume: () => Promise<void>;
+  stop: () => void;            // Abort the request and discard everything queued
+}
+
+const PLAYBACK_POLL_MS = 200;
+
 export function useStreamingTTS() {
   const [state, setState] = useState<StreamingTTSState>({
     isStreaming: false,
+    isPlaying: false,
+    isPaused: false,
     progress: 0,
     chunksReceived: 0,
-    totalDuration: 0
+    totalDuration: 0,
+    stats: null
   });
+  const { openSession, speak, closeSession } = useAlibabaTTS();
+  const abortRef = useRef<AbortController | null>(null);
+  const playerRef = useRef<PcmPlayer | null>(null);
+  const monitorRef = useRef<number | null>(null);
+
+  // Stop playback and close the player's AudioContext
+  const releasePlayer = useCallback(() => {
+    if (monitorRef.current !== null) {
+      window.clearInterval(monitorRef.current);
+      monitorRef.current = null;
+    }
+    const player = playerRef.current;
+    if (!player) return;
+    playerRef.current = null;
+    player.stop();
+    player.close().catch(() => {});
+  }, []);
+
+  // Create the player for a request, publish its stats while it plays and release it
+  // once the stream has been flushed and everything has played (nothing plays while paused).
+  // Resolves to null if the request was stopped while the player was loading.
+  const startPlayer = useCallback(async (
+    format: PcmFormat,
+    startedAt: number,
+    signal: AbortSignal,
+    minChunkBytes?: number
+  ): Promise<PcmPlayer | null> => {
+    const player = await createStreamPlayer({ format, minChunkBytes });
+    if (signal.aborted) {
+      player.close().catch(() => {});
+      return null;
+    }
+    playerRef.current = player;
+
+    monitorRef.current = window.setInterval(() => {
+      if (playerRef.current !== player) return;
+      const { firstAudioAt, ...stats } = player.stats();
+      setState(prev => ({
+        ...prev,
+        stats: {
+          ...stats,
+          timeToFirstAudioMs: firstAudioAt === null ? null : Math.round(firstAudioAt - startedAt)
+        }
+      }));
+
+      if (player.isDrained()) {
+        releasePlayer();
+        setState(prev => ({ ...prev, isPlaying: false, isPaused: false }));
+      }
+    }, PLAYBACK_POLL_MS);
+    return player;
+  }, [releasePlayer]);
+
+  const pause = useCallback(async () => {
+    const player = playerRef.current;
+    if (!player || player.context.state !== 'running') return;
+    await player.context.suspend();
+    setState(prev => ({ ...prev, isPaused: true }));
+  }, []);
+
+  const resume = useCallback(async () => {
+    const player = playerRef.current;
+    if (!player || player.context.state !== 'suspended') return;
+    await player.context.resume();
+    setState(prev => ({ ...prev, isPaused: false }));
+  }, []);
+
+  const stop = useCallback(() => {
+    const controller = abortRef.current;
+    if (controller) {
+      abortRef.current = null;
+      controller.abort();
+      // The realtime socket cannot cancel a response; drop it, the next request reconnects
+      closeSession();
+    }
+    releasePlayer();
+    setState(prev => ({ ...prev, isStreaming: false, isPlaying: false, isPaused: false }));
+  }, [closeSession, releasePlayer]);
+
+  // Abort the request and close the AudioContext on unmount
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      releasePlayer();
+    };
+  }, [releasePlayer]);
 
   const generateStreaming = async (options: StreamingTTSOptions): Promise<void> => {
     const { text, voice, serviceId, onChunk, onComplete, onError, onProgress } = options;
 
-    setState(prev => ({ ...prev, isStreaming: true, progress: 0, chunksReceived: 0 }));
+    // A new request replaces whatever is still playing
+    stop();
+    const startedAt = performance.now();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    const { signal } = abortController;
+
+    setState(prev => ({ ...prev, isStreaming: true, isPlaying: true, isPaused: false, progress: 0, chunksReceived: 0, stats: null }));
 
     try {
-      // Get service configuration from Tier 2 injected env vars
-      const services = (window as any).__ENV__?.SERVICES || {};
-      const service = services[serviceId] || getServiceById(serviceId);
-
-      // If service not found in runtime config, check if it's a standard one we can construct
-      // This is important for development or when runtime config isn't fully populated
-      let streamEndpoint = '';
-      let apiKey = '';
-      
-      if (service) {
-        // Use the OpenAI TTS endpoint with stream=true for raw PCM byte streaming
-        // The worker's /v1/audio/speech endpoint handles streaming when stream=true
-        // This returns raw audio bytes, not SSE
-        streamEndpoint = service.endpoint;
-        apiKey = service.apiKey;
-      } else {
-        // Fallback or explicit construction if needed
-        if (serviceId === 'echotts' || serviceId === 'default') {
-             streamEndpoint = '/v1/audio/speech';
-        } else {
-             throw new Error(`Service not found for streaming: ${serviceId}`);
-        }
+      const config = getConfig();
+      const service = config.services.find(s => s.id === serviceId);
+      if (!service) {
+        throw new Error(`Service not found for streaming: ${serviceId}`);
       }
+      if (!service.capabilities.streaming) {
+        throw new Error(`Service does not support streaming: ${service.label}`);
+      }
+
+      let totalChunks = 0;
+      const handleChunk = (chunk: PcmChunk | null) => {
+        if (!chunk || signal.aborted) return;
+        totalChunks++;
 
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json'
+        // Callbacks (decoding for onChunk happens only when a caller asks for it)
+        onChunk?.(chunk.toAudioBuffer(), totalChunks);
+        onProgress?.(Math.min(totalChunks * 5, 95)); // Rough progress
+
+        // Update state
+        setState(prev => ({
+          ...prev,
+          chunksReceived: totalChunks,
+          progress: Math.min(totalChunks * 5, 95)
+        }));
       };
 
-      if (apiKey) {
-        headers['Authorization'] = `Bearer ${apiKey}`;
+      if (service.transport === 'alibaba-realtime-ws') {
+        const player = await startPlayer(ALIBABA_PCM_FORMAT, startedAt, signal);
+        if (!player) return;
+        const opened = await openSession({
+          voice,
+          service,
+          onAudioDelta: (bytes) => {
+            if (!signal.aborted) handleChunk(player.enqueue(bytes));
+          }
+        });
+        const blob = opened && !signal.aborted ? await speak(text) : null;
+        if (signal.aborted) return;
+        if (!blob) {
+          throw new Error('Realtime session produced no audio');
+        }
+        handleChunk(player.flush());
+        abortRef.current = null;
+
+        const realtimeDuration = player.duration();
+        setState(prev => ({
+          ...prev,
+          isStreaming: false,
+          progress: 100,
+          totalDuration: realtimeDuration
+        }));
+        onComplete?.(realtimeDuration, { blob, sampleRate: ALIBABA_PCM_FORMAT.sampleRate });
+        return;
       }
 
-      // Transform payload to OpenAI TTS format
-      // The /v1/audio/speech endpoint expects: model, input, voice, stream, response_format
-      // Use response_format='pcm' to get raw PCM bytes instead of MP3
-      const payload = {
-        model: 'tts-1',
-        input: text,
-        voice: voice,
-        stream: true,
-        response_format: 'pcm'  // Request raw PCM output (not MP3)
-      };
+      let streamEndpoint: string;
+      let headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      let payload: Record<string, unknown>;
+
+      if (config.proxyMode) {
+        // server.js attaches the provider key and picks the backend's raw PCM endpoint
+        streamEndpoint = '/api/tts/stream';
+        payload = {
+          service: service.id,
+          input: text,
+          voice: voice,
+          stream: true
+        };
+      } else {
+        // Use the OpenAI TTS endpoint with stream=true for raw PCM byte streaming
+        // The worker's /v1/audio/speech endpoint handles streaming when stream=true
+        // This returns raw audio bytes, not SSE
+        streamEndpoint = service.endpoint;
+        headers = { ...headers, ...getAuthHeaders(service) };
+
+        // Transform payload to OpenAI TTS format
+        // The /v1/audio/speech endpoint expects: model, input, voice, stream, response_format
+        // Use response_format='pcm' to get raw PCM bytes instead of MP3
+        payload = {
+          model: 'tts-1',
+          input: text,
+          voice: voice,
+          stream: true,
+          response_format: 'pcm'  // Request raw PCM output (not MP3)
+        };
+      }
 
-      const response = await fetch(streamEndpoint, {
+      const request: RequestInit = {
         method: 'POST',
         headers,
         body: JSON.stringify(payload),
-      });
+        signal,
+      };
+      const response = config.proxyMode
+        ? await apiFetch(streamEndpoint, request)
+        : await fetch(streamEndpoint, request);
 
       if (!response.ok) {
         let errorMsg = `HTTP ${response.status}: ${response.statusText}`;
@@ -103,15 +282,21 @@ export function useStreamingTTS() {
         throw new Error(errorMsg);
       }
 
-      // Create audio context for playback
-      // Let the browser choose the sample rate - do NOT force 48kHz or 24kHz
-      // The Web Audio API will handle sample rate conversion automatically
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const audioContext = new AudioContextClass();
-      const sources: AudioBufferSourceNode[] = [];
-      let startTime = 0;
-      let totalChunks = 0;
-      let totalSamples = 0;
+      // The backend announces its format in the response headers (forwarded by server.js);
+      // otherwise the service's streamFormat from services.json applies
+      const format = parsePcmFormat(response.headers, service.streamFormat);
+      console.log(`[Streaming] PCM format: ${format.sampleRate}Hz, ${format.channels}ch, ${format.encoding}`);
+
+      // The player creates the audio context for playback
+      // Let the browser choose the sample rate - do NOT force 48kHz or 24kHz;
+      // the player resamples the stream to whatever rate the context runs at
+      const player = await startPlayer(
+        format,
+        startedAt,
+        signal,
+        Math.round(format.sampleRate * 0.1) * bytesPerFrame(format) // 0.1 sec of audio (main-thread fallback)
+      );
+      if (!player) return;
 
       // Read streaming response from Tier 2
       const reader = response.body?.getReader();
@@ -119,137 +304,23 @@ export function useStreamingTTS() {
         throw new Error('Response body is not readable');
       }
 
-      // Buffer for accumulating partial data
-      let buffer = new Uint8Array(0);
-      const bytesPerSample = 2; // 16-bit PCM
-      const samplesPerChunk = 4800; // 0.1 sec at 48kHz
-      const minChunkSize = samplesPerChunk * bytesPerSample;
-
+      const pcmChunks: Uint8Array[] = [];
       while (true) {
         const { done, value } = await reader.read();
 
         if (done) {
           break;
         }
-
-
-        // Accumulate data
-        const newBuffer = new Uint8Array(buffer.length + value.length);
-        newBuffer.set(buffer, 0);
-        newBuffer.set(value, buffer.length);
-        buffer = newBuffer;
-
-        // Try to decode complete chunks
-        while (buffer.length >= minChunkSize) {
-          try {
-            // We process available data in multiples of bytesPerSample
-            // Ideally we process 'samplesPerChunk' size, but we can also process whatever is ready
-            // providing it's enough to be audible/useful.
-            // Let's stick to processing whatever complete samples we have if it's > minChunkSize
-            
-            const availableSamples = Math.floor(buffer.length / bytesPerSample);
-            const samplesToProcess = availableSamples; // Process all available complete samples
-            
-            const float32Array = new Float32Array(samplesToProcess);
-
-            // Convert 16-bit PCM to Float32 for Web Audio API
-            for (let i = 0; i < samplesToProcess; i++) {
-              const byteIndex = i * 2;
-              const sample = (buffer[byteIndex] | (buffer[byteIndex + 1] << 8));
-              // Handle signed 16-bit integer
-              const signedSample = sample >= 32768 ? sample - 65536 : sample;
-              float32Array[i] = signedSample / 32768.0;
-            }
-
-            // Create audio buffer with the audio context's sample rate
-            const audioBuffer = audioContext.createBuffer(1, samplesToProcess, audioContext.sampleRate);
-            audioBuffer.copyToChannel(float32Array, 0);
-
-            // Schedule playback
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContext.destination);
-
-            if (startTime === 0) {
-              // Start slightly in the future to allow scheduling
-              startTime = audioContext.currentTime + 0.1; // Small buffer
-            }
-
-            // Ensure schedule time is not in the past
-            const scheduleTime = Math.max(startTime, audioContext.currentTime);
-            source.start(scheduleTime);
-
-            // Advance start time for next chunk
-            startTime = scheduleTime + audioBuffer.duration;
-
-            sources.push(source);
-            totalChunks++;
-            totalSamples += samplesToProcess;
-
-            // Callbacks
-            onChunk?.(audioBuffer, totalChunks);
-            onProgress?.(Math.min(totalChunks * 5, 95)); // Rough progress
-
-
-            // Update state
-            setState(prev => ({
-              ...prev,
-              chunksReceived: totalChunks,
-              progress: Math.min(totalChunks * 5, 95)
-            }));
-
-            // Remove processed data from buffer
-            buffer = buffer.slice(samplesToProcess * bytesPerSample);
-
-          } catch (decodeError) {
-            // Not enough data or decode error, wait for more
-            break;
-          }
-        }
+        pcmChunks.push(value);
+        handleChunk(player.enqueue(value));
       }
 
       // Process any remaining buffer data (the final chunk)
-      if (buffer.length >= bytesPerSample) {
+      handleChunk(player.flush());
+      abortRef.current = null;
 
-        const remainingSamples = Math.floor(buffer.length / bytesPerSample);
-        const float32Array = new Float32Array(remainingSamples);
-
-        // Convert 16-bit PCM to Float32 for Web Audio API
-        for (let i = 0; i < remainingSamples; i++) {
-          const byteIndex = i * 2;
-          const sample = (buffer[byteIndex] | (buffer[byteIndex + 1] << 8));
-          const signedSample = sample >= 32768 ? sample - 65536 : sample;
-          float32Array[i] = signedSample / 32768.0;
-        }
-
-        // Create and schedule final audio buffer
-        const audioBuffer = audioContext.createBuffer(1, remainingSamples, audioContext.sampleRate);
-        audioBuffer.copyToChannel(float32Array, 0);
-
-        const source = audioContext.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(audioContext.destination);
-
-        if (startTime === 0) {
-          startTime = audioContext.currentTime + 0.1;
-        }
-        // Ensure schedule time is not in the past
-        const scheduleTime = Math.max(startTime, audioContext.currentTime);
-        source.start(scheduleTime);
-        startTime = scheduleTime + audioBuffer.duration;
-
-        sources.push(source);
-        totalChunks++;
-        totalSamples += remainingSamples;
-
-
-        onChunk?.(audioBuffer, totalChunks);
-      } else {
-      }
-
-      // Calculate total duration based on when the last chunk ends
-      // Use the audio context's sample rate for accurate duration calculation
-      const calculatedDuration = totalSamples / audioContext.sampleRate;
+      // Total duration of the source audio, at the stream's own sample rate
+      const calculatedDuration = player.duration();
 
 
       setState(prev => ({
@@ -259,16 +330,27 @@ export function useStreamingTTS() {
         totalDuration: calculatedDuration
       }));
 
-      onComplete?.(calculatedDuration);
+      onComplete?.(calculatedDuration, {
+        blob: createWavBlobFromPcm(pcmChunks, format),
+        sampleRate: format.sampleRate
+      });
 
     } catch (error) {
-      setState(prev => ({ ...prev, isStreaming: false }));
+      // stop() already cleaned up; a cancelled stream is not a failure
+      if (signal.aborted) return;
+      abortRef.current = null;
+      releasePlayer();
+      setState(prev => ({ ...prev, isStreaming: false, isPlaying: false, isPaused: false }));
       onError?.(error as Error);
     }
   };
 
+  const controller: StreamingController = { pause, resume, stop };
+
   return {
     generateStreaming,
+    controller,
+    closeRealtimeSession: closeSession,
     ...state
   };
 }
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
-import { getConfig, getServiceById, TTSService } from '../config';
+import { getConfig, getServiceById, getAuthHeaders, TTSService } from '../config';
+import { apiFetch } from '../utils/api';
 
 interface GenerateTTSParams {
   text: string;
@@ -7,6 +8,78 @@ interface GenerateTTSParams {
   serviceId?: string;
 }
 
+/**
+ * Request speech for one text without touching any hook state
+ * Throws on failure, so concurrent callers (e.g. long-form segments) each see their own error
+ */
+export async function requestSpeech({ text, voice, serviceId }: GenerateTTSParams): Promise<Blob> {
+  const config = getConfig();
+  if (!text.trim()) {
+    throw new Error('Text cannot be empty');
+  }
+
+  // Get the service configuration
+  let service: TTSService | undefined;
+  
+  if (serviceId) {
+    service = getServiceById(serviceId);
+  } else if (config.services.length > 0) {
+    // Use first available service if none specified
+    service = config.services[0];
+  }
+
+  if (!service) {
+    throw new Error('Configuration Error: No TTS service available');
+  }
+
+  // In proxy mode the server attaches the provider key; otherwise call the backend directly
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(config.proxyMode ? {} : getAuthHeaders(service)),
+  };
+
+  const requestBody = {
+    ...(config.proxyMode ? { service: service.id } : {}),
+    model: config.model,
+    input: text,
+    voice: voice,
+  };
+
+  console.log(`[TTS Request] Service: ${service.id}, Voice: ${voice}, Model: ${config.model}`);
+  
+  const request: RequestInit = {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(requestBody),
+  };
+  // Only our own server gets the session token, never a third-party backend
+  const response = config.proxyMode
+    ? await apiFetch('/api/tts/speech', request)
+    : await fetch(service.endpoint, request);
+
+  if (!response.ok) {
+    let errorMsg = `Server returned ${response.status}: ${response.statusText}`;
+    try {
+      const errorBody = await response.text();
+      if (errorBody) {
+        errorMsg += ` - ${errorBody}`;
+      }
+    } catch (e) {
+      // Ignore error parsing errors
+    }
+    throw new Error(errorMsg);
+  }
+
+  const contentType = response.headers.get('content-type');
+  console.log(`[TTS Response] Service: ${service.id}, Content-Type: ${contentType}, Size: ${response.headers.get('content-length') || 'unknown'}`);
+
+  // Use the actual content type from the response instead of overriding it
+  const blob = await response.blob();
+  console.log(`[TTS Blob] Service: ${service.id}, Blob Type: ${blob.type}, Size: ${blob.size}`);
+
+  return blob;
+}
+
 /**
  * Custom hook for TTS generation
  * Handles API calls, loading states, and error handling
@@ -17,77 +90,12 @@ export function useTTS() {
   const [error, setError] = useState<string | null>(null);
   const config = getConfig();
 
-  const generate = useCallback(async ({ text, voice, serviceId }: GenerateTTSParams): Promise<Blob | null> => {
-    if (!text.trim()) {
-      setError('Text cannot be empty');
-      return null;
-    }
-
-    // Get the service configuration
-    let service: TTSService | undefined;
-    
-    if (serviceId) {
-      service = getServiceById(serviceId);
-    } else if (config.services.length > 0) {
-      // Use first available service if none specified
-      service = config.services[0];
-    }
-
-    if (!service) {
-      setError('Configuration Error: No TTS service available');
-      return null;
-    }
-
+  const generate = useCallback(async (params: GenerateTTSParams): Promise<Blob | null> => {
     setLoading(true);
     setError(null);
 
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-
-      // Add Authorization header if API key is present
-      if (service.apiKey) {
-        headers['Authorization'] = `Bearer ${service.apiKey}`;
-      }
-
-      const requestBody = {
-        model: config.model,
-        input: text,
-        voice: voice,
-      };
-
-      console.log(`[TTS Request] Service: ${service.id}, Voice: ${voice}, Model: ${config.model}`);
-      
-      const response = await fetch(service.endpoint, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        let errorMsg = `Server returned ${response.status}: ${response.statusText}`;
-        try {
-          const errorBody = await response.text();
-          if (errorBody) {
-            errorMsg += ` - ${errorBody}`;
-          }
-        } catch (e) {
-          // Ignore error parsing errors
-        }
-        throw new Error(errorMsg);
-      }
-
-      const contentType = response.headers.get('content-type');
-      console.log(`[TTS Response] Service: ${service.id}, Content-Type: ${contentType}, Size: ${response.headers.get('content-length') || 'unknown'}`);
-
-      const blob = await response.blob();
-      console.log(`[TTS Blob] Service: ${service.id}, Blob Type: ${blob.type}, Size: ${blob.size}`);
-
-      // Use the actual content type from the response instead of overriding it
-      const audioBlob = blob;
-
-      return audioBlob;
+      return await requestSpeech(params);
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to generate audio';
       console.error('TTS generation error:', err);
@@ -96,7 +104,7 @@ export function useTTS() {
     } finally {
       setLoading(false);
     }
-  }, [config.model, config.services]);
+  }, []);
 
   const clearError = useCallback(() => {
     setError(null);
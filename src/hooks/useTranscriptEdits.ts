@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { get, set, del } from 'idb-keyval';
+import { Transcript } from '../utils/transcriptEdits';
+
+const EDITS_KEY_PREFIX = 'stt-transcript-edits:';
+
+interface StoredEdits extends Transcript {
+  updatedAt: number;
+}
+
+/**
+ * Edited transcript for an upload, or null when it was never edited
+ */
+export const loadTranscriptEdits = async (uuid: string): Promise<Transcript | null> => {
+  const saved = await get<StoredEdits>(EDITS_KEY_PREFIX + uuid);
+  return saved ? { text: saved.text, timestamps: saved.timestamps } : null;
+};
+
+export const deleteTranscriptEdits = (uuid: string): Promise<void> => del(EDITS_KEY_PREFIX + uuid);
+
+/**
+ * Custom hook for local corrections to a transcription, kept in IndexedDB per upload UUID
+ * Returns the edited transcript when there is one, otherwise the original
+ */
+export function useTranscriptEdits(uuid: string | null, original: Transcript | null) {
+  const [edited, setEdited] = useState<StoredEdits | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEdited(null);
+    setError(null);
+    if (!uuid) return;
+
+    // Ignore a load for a transcription that has since been replaced
+    let cancelled = false;
+    get<StoredEdits>(EDITS_KEY_PREFIX + uuid)
+      .then(saved => {
+        if (!cancelled && saved) setEdited(saved);
+      })
+      .catch((err: unknown) => {
+        console.error('[Transcript Edits] Failed to load edits:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uuid]);
+
+  const saveEdits = useCallback(async (transcript: Transcript) => {
+    if (!uuid) return;
+    const next: StoredEdits = { text: transcript.text, timestamps: transcript.timestamps, updatedAt: Date.now() };
+    setEdited(next);
+    try {
+      await set(EDITS_KEY_PREFIX + uuid, next);
+    } catch (err: unknown) {
+      console.error('[Transcript Edits] Failed to save edits:', err);
+      setError('Could not save your edits in this browser. They will be lost on reload.');
+    }
+  }, [uuid]);
+
+  const resetEdits = useCallback(async () => {
+    setEdited(null);
+    setError(null);
+    if (!uuid) return;
+    try {
+      await deleteTranscriptEdits(uuid);
+    } catch (err: unknown) {
+      console.error('[Transcript Edits] Failed to delete edits:', err);
+    }
+  }, [uuid]);
+
+  const transcript: Transcript | null = edited
+    ? { text: edited.text, timestamps: edited.timestamps }
+    : original;
+
+  return {
+    transcript,
+    isEdited: !!edited,
+    editedAt: edited?.updatedAt ?? null,
+    saveEdits,
+    resetEdits,
+    error,
+    clearError: () => setError(null),
+  };
+}
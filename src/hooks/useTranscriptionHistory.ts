@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import {
+  TranscriptionRecord,
+  putTranscription,
+  deleteTranscription,
+  getAllTranscriptions,
+} from '../utils/transcriptionDb';
+import { deleteTranscriptEdits } from './useTranscriptEdits';
+
+export type { TranscriptionRecord } from '../utils/transcriptionDb';
+
+/**
+ * Custom hook to manage the STT transcription history with IndexedDB persistence
+ * Mirrors useHistory for TTS: state updates first, then the database
+ */
+export function useTranscriptionHistory() {
+  const [items, setItems] = useState<TranscriptionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getAllTranscriptions()
+      .then(records => {
+        if (!cancelled) setItems(records);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load transcription history:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const addItem = async (record: TranscriptionRecord) => {
+    setItems(prev => [record, ...prev.filter(item => item.id !== record.id)]);
+    try {
+      await putTranscription(record);
+    } catch (error) {
+      console.error('Failed to save transcription history:', error);
+    }
+  };
+
+  const renameItem = async (id: string, name: string) => {
+    const item = items.find(i => i.id === id);
+    const trimmed = name.trim();
+    if (!item || !trimmed || trimmed === item.name) return;
+
+    const renamed = { ...item, name: trimmed };
+    setItems(prev => prev.map(i => (i.id === id ? renamed : i)));
+    try {
+      await putTranscription(renamed);
+    } catch (error) {
+      console.error('Failed to rename transcription:', error);
+    }
+  };
+
+  // Local edits of the transcript go with it
+  const removeItem = async (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    try {
+      await deleteTranscription(id);
+      await deleteTranscriptEdits(id);
+    } catch (error) {
+      console.error('Failed to delete transcription:', error);
+    }
+  };
+
+  return {
+    items,
+    isLoading,
+    addItem,
+    renameItem,
+    removeItem,
+  };
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface VoiceLabel {
+  alias: string;
+  notes: string;
+}
+
+const LABELS_KEY = 'tts_voice_labels';
+
+/**
+ * Custom hook for local aliases and notes on provider voices (kept in localStorage)
+ * Provider voice IDs are opaque, so users can give them their own names
+ */
+export function useVoiceLabels() {
+  const [labels, setLabels] = useState<Record<string, VoiceLabel>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(LABELS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(LABELS_KEY, JSON.stringify(labels));
+  }, [labels]);
+
+  const setLabel = useCallback((voiceId: string, label: Partial<VoiceLabel>) => {
+    setLabels(prev => {
+      const next: VoiceLabel = { ...(prev[voiceId] || { alias: '', notes: '' }), ...label };
+      if (!next.alias && !next.notes) {
+        const { [voiceId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [voiceId]: next };
+    });
+  }, []);
+
+  const removeLabels = useCallback((voiceIds: string[]) => {
+    setLabels(prev => {
+      const next = { ...prev };
+      voiceIds.forEach(id => delete next[id]);
+      return next;
+    });
+  }, []);
+
+  return { labels, setLabel, removeLabels };
+}
@@ -0,0 +1,199 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { decodeAudioBlob, toMono } from '../utils/audio';
+import { encodeWav } from '../utils/wav';
+
+export type RecorderStatus = 'idle' | 'requesting' | 'recording' | 'processing' | 'recorded';
+
+export const MIN_RECORDING_SECONDS = 30;
+export const MAX_RECORDING_SECONDS = 60;
+
+// Cloning backends want ≥24kHz mono; 60s at 24kHz/16-bit stays well under the 10MB upload limit
+const RECORDING_SAMPLE_RATE = 24000;
+
+interface UseVoiceRecorderReturn {
+  status: RecorderStatus;
+  elapsed: number;          // Seconds recorded so far
+  level: number;            // Input level 0..1 while recording
+  recording: File | null;   // WAV take, ready to upload like a selected file
+  previewUrl: string | null;
+  error: string | null;
+  start: () => Promise<void>;
+  stop: () => void;
+  reset: () => void;
+}
+
+/**
+ * Custom hook for recording a reference voice with MediaRecorder
+ * Enforces the 30-60s window, meters the input level and encodes the take to WAV
+ */
+export function useVoiceRecorder(): UseVoiceRecorderReturn {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const startedAtRef = useRef(0);
+
+  // Release the microphone, meter and timer (the take itself is kept)
+  const releaseInput = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    frameRef.current = null;
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+    setLevel(0);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Recording is not supported in this browser. Please upload a file instead.');
+      return;
+    }
+
+    setError(null);
+    setRecording(null);
+    setPreviewUrl(null);
+    setElapsed(0);
+    setStatus('requesting');
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: false, noiseSuppression: false, autoGainControl: true }
+      });
+      streamRef.current = stream;
+
+      // Level meter: peak of the analyser's time-domain window, once per frame
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      audioContextRef.current = audioContext;
+
+      const samples = new Float32Array(analyser.fftSize);
+      const meter = () => {
+        analyser.getFloatTimeDomainData(samples);
+        let peak = 0;
+        for (let i = 0; i < samples.length; i++) {
+          peak = Math.max(peak, Math.abs(samples[i]));
+        }
+        setLevel(peak);
+        frameRef.current = requestAnimationFrame(meter);
+      };
+      meter();
+
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(stream);
+      recorderRef.current = recorder;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+
+      recorder.onstop = async () => {
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+        releaseInput();
+        recorderRef.current = null;
+
+        if (duration < MIN_RECORDING_SECONDS) {
+          setError(`Recording must be at least ${MIN_RECORDING_SECONDS} seconds. Please try again.`);
+          setStatus('idle');
+          return;
+        }
+
+        setStatus('processing');
+        try {
+          // MediaRecorder produces WebM/Ogg; cloning backends expect a plain WAV file
+          const decoded = await decodeAudioBlob(new Blob(chunks, { type: recorder.mimeType }), RECORDING_SAMPLE_RATE);
+          const wav = encodeWav([toMono(decoded)], RECORDING_SAMPLE_RATE);
+          const file = new File([wav], `recording-${Date.now()}.wav`, { type: 'audio/wav' });
+          setRecording(file);
+          setPreviewUrl(URL.createObjectURL(file));
+          setStatus('recorded');
+        } catch (err: unknown) {
+          console.error('[Voice Recorder] Failed to encode recording:', err);
+          setError('Failed to process the recording. Please try again.');
+          setStatus('idle');
+        }
+      };
+
+      recorder.start(1000);
+      startedAtRef.current = Date.now();
+      setStatus('recording');
+
+      timerRef.current = window.setInterval(() => {
+        const seconds = (Date.now() - startedAtRef.current) / 1000;
+        setElapsed(Math.min(seconds, MAX_RECORDING_SECONDS));
+        if (seconds >= MAX_RECORDING_SECONDS) {
+          stop();
+        }
+      }, 200);
+    } catch (err: unknown) {
+      releaseInput();
+      const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+      setError(denied
+        ? 'Microphone access was denied. Allow it in your browser settings to record.'
+        : err instanceof Error ? err.message : 'Failed to start recording');
+      setStatus('idle');
+    }
+  }, [releaseInput, stop]);
+
+  const reset = useCallback(() => {
+    if (recorderRef.current) {
+      recorderRef.current.onstop = null;
+      stop();
+      recorderRef.current = null;
+    }
+    releaseInput();
+    setRecording(null);
+    setPreviewUrl(null);
+    setElapsed(0);
+    setError(null);
+    setStatus('idle');
+  }, [releaseInput, stop]);
+
+  // Stop the microphone if the component goes away mid-recording
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current) {
+        recorderRef.current.onstop = null;
+        if (recorderRef.current.state === 'recording') recorderRef.current.stop();
+      }
+      releaseInput();
+    };
+  }, [releaseInput]);
+
+  // Revoke the preview URL when it is replaced or on unmount
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  return {
+    status,
+    elapsed,
+    level,
+    recording,
+    previewUrl,
+    error,
+    start,
+    stop,
+    reset,
+  };
+}
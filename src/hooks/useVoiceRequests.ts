@@ -0,0 +1,147 @@
+import { useState, useCallback, useEffect } from 'react';
+import { apiFetch } from '../utils/api';
+
+export type VoiceRequestStatus = 'pending' | 'approved' | 'denied';
+
+export interface VoiceRequest {
+  id: string;
+  userId: string;
+  email: string | null;
+  status: VoiceRequestStatus;
+  notes: string | null;       // From the requester
+  reviewNotes: string | null; // From the reviewing admin
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+// How often an open request is re-checked so approval shows up without a reload
+const POLL_INTERVAL_MS = 15000;
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  const data = await response.json().catch(() => null);
+  return data?.error || fallback;
+};
+
+/**
+ * Custom hook for the creator access workflow
+ * Users submit and track their own request; admins list and review requests
+ */
+export function useVoiceRequests() {
+  const [myRequest, setMyRequest] = useState<VoiceRequest | null>(null);
+  const [requests, setRequests] = useState<VoiceRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMyRequest = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/voice-requests/me');
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load request status'));
+      }
+      const data = await response.json();
+      setMyRequest(data.request);
+    } catch (err: unknown) {
+      console.error('[Voice Requests] Status error:', err);
+    }
+  }, []);
+
+  const requestAccess = useCallback(async (notes: string): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch('/api/voice-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to submit request'));
+      }
+      const data = await response.json();
+      setMyRequest(data.request);
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to submit request');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadRequests = useCallback(async (status: VoiceRequestStatus | 'all' = 'pending') => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`/api/voice-requests?status=${status}`);
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load requests'));
+      }
+      const data = await response.json();
+      setRequests(data.requests || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const reviewRequest = useCallback(async (id: string, decision: 'approve' | 'deny', notes: string): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`/api/voice-requests/${id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, `Failed to ${decision} request`));
+      }
+      // Reviewed requests leave the list
+      setRequests(prev => prev.filter(r => r.id !== id));
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : `Failed to ${decision} request`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Poll while the user's own request is open, and re-check when the tab regains focus
+  useEffect(() => {
+    if (myRequest?.status !== 'pending') return;
+
+    const timer = window.setInterval(loadMyRequest, POLL_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') loadMyRequest();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [myRequest?.status, loadMyRequest]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    myRequest,
+    requests,
+    loading,
+    error,
+    loadMyRequest,
+    requestAccess,
+    loadRequests,
+    approveRequest: (id: string, notes: string) => reviewRequest(id, 'approve', notes),
+    denyRequest: (id: string, notes: string) => reviewRequest(id, 'deny', notes),
+    clearError,
+  };
+}
@@ -0,0 +1,73 @@
+import { useState, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface CatalogVoice {
+  id: string;
+  displayName: string;
+  serviceId?: string;
+  status: 'approved' | 'pending';
+  owner: string | null;     // Email for owners/admins, name part for everyone else
+  isOwner: boolean;
+  createdAt: string | null; // ISO timestamp, null for static voices
+}
+
+interface UseVoicesReturn {
+  voices: CatalogVoice[];
+  serviceId: string | null; // Service the current list was loaded for
+  loading: boolean;
+  error: string | null;
+  loadVoices: (serviceId: string, options?: { refresh?: boolean }) => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Custom hook for the database-backed voice catalog (GET /api/voices)
+ * Loads the voices available for one service at a time
+ */
+export function useVoices(): UseVoicesReturn {
+  const [voices, setVoices] = useState<CatalogVoice[]>([]);
+  const [serviceId, setServiceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVoices = useCallback(async (service: string, options: { refresh?: boolean } = {}) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ service });
+      if (options.refresh) params.set('refresh', '1');
+
+      const response = await apiFetch(`/api/voices?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to load voices' }));
+        throw new Error(errorData.error || 'Failed to load voices');
+      }
+
+      const data = await response.json();
+      setVoices(data.voices || []);
+      setServiceId(service);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load voices';
+      console.error('[Voices] Load error:', err);
+      setError(errorMessage);
+      setVoices([]);
+      setServiceId(service);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    voices,
+    serviceId,
+    loading,
+    error,
+    loadVoices,
+    clearError,
+  };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { decodeAudioBlob, toMono, computePeaks } from '../utils/audio';
+
+// A low decode rate keeps 30-minute recordings small; peaks do not need full bandwidth
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_BUCKETS = 1000;
+
+export interface Waveform {
+  peaks: Float32Array; // 0..1, one per bucket
+  duration: number;    // seconds
+}
+
+/**
+ * Custom hook that decodes an audio file into a waveform overview whenever it changes
+ */
+export function useWaveform(file: File | null, buckets = WAVEFORM_BUCKETS) {
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setWaveform(null);
+    setError(null);
+    if (!file) return;
+
+    // Ignore results for a file that has since been replaced
+    let cancelled = false;
+    setLoading(true);
+
+    decodeAudioBlob(file, WAVEFORM_SAMPLE_RATE)
+      .then(buffer => {
+        if (cancelled) return;
+        const samples = toMono(buffer);
+        const peaks = computePeaks(samples, buckets);
+        // Scale so the loudest bucket fills the height
+        const max = peaks.reduce((a, b) => Math.max(a, b), 0) || 1;
+        setWaveform({ peaks: peaks.map(p => p / max), duration: buffer.duration });
+      })
+      .catch((err: unknown) => {
+        console.error('[Waveform] Failed to decode file:', err);
+        if (!cancelled) setError('Could not decode this file to draw its waveform.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [file, buckets]);
+
+  return { waveform, loading, error };
+}
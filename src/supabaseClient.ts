@@ -0,0 +1,24 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+const env = window.__ENV__ || {};
+const supabaseUrl = env.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = env.VITE_SUPABASE_ANON_KEY || import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+/**
+ * Supabase client for authentication, or null when Supabase is not configured.
+ * Without it the app runs in open mode: no sign-in and no role checks.
+ */
+export const supabase: SupabaseClient | null = supabaseUrl && supabaseAnonKey
+  ? createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: true, autoRefreshToken: true },
+    })
+  : null;
+
+/**
+ * Current access token (refreshed by supabase-js when close to expiry), if signed in
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  if (!supabase) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+};
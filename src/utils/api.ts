@@ -0,0 +1,24 @@
+import { getAccessToken } from '../supabaseClient';
+
+/**
+ * fetch() for our own /api routes: attaches the Supabase access token when signed in
+ */
+export const apiFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const token = await getAccessToken();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(input, { ...init, headers });
+};
+
+/**
+ * WebSocket URL for a same-origin /api path. Browsers cannot set headers on
+ * WebSocket handshakes, so the access token travels as a query parameter.
+ */
+export const apiWebSocketUrl = async (path: string): Promise<string> => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const token = await getAccessToken();
+  const query = token ? `?access_token=${encodeURIComponent(token)}` : '';
+  return `${protocol}//${window.location.host}${path}${query}`;
+};
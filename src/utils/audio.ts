@@ -0,0 +1,189 @@
+import { encodeWav, readWavInfo } from './wav';
+import { sniffAudioContainer } from './audioFormat';
+
+/**
+ * Decode any browser-supported audio blob (WAV, MP3, OGG...) to an AudioBuffer
+ * resampled to the requested rate
+ */
+export const decodeAudioBlob = async (blob: Blob, sampleRate = 24000): Promise<AudioBuffer> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  // OfflineAudioContext decodes at its own sample rate without touching audio output
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(arrayBuffer);
+};
+
+/**
+ * Downmix an AudioBuffer to a single mono channel
+ */
+export const toMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0).slice();
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Peak amplitude of each of `buckets` equal slices of the samples, for waveform overviews
+ */
+export const computePeaks = (samples: Float32Array, buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  if (samples.length === 0) return peaks;
+  const bucketSize = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * bucketSize);
+    const end = Math.max(start + 1, Math.floor((b + 1) * bucketSize));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks[b] = peak;
+  }
+  return peaks;
+};
+
+export interface StitchOptions {
+  sampleRate?: number; // Defaults to the highest native rate among the blobs
+  silenceMs?: number; // Gap inserted between consecutive segments
+}
+
+// Native sample rate from the WAV header or the container, when it exposes one
+const readNativeSampleRate = async (blob: Blob): Promise<number | undefined> => {
+  const wav = readWavInfo(await blob.arrayBuffer());
+  return wav ? wav.sampleRate : (await sniffAudioContainer(blob)).sampleRate;
+};
+
+/**
+ * Decode a list of audio blobs and join them into a single mono 16-bit WAV
+ * at the segments' own sample rate, so 44.1/48 kHz backends keep their quality
+ */
+export const stitchAudioBlobs = async (blobs: Blob[], { sampleRate, silenceMs = 300 }: StitchOptions = {}): Promise<Blob> => {
+  if (!sampleRate) {
+    const rates = await Promise.all(blobs.map(readNativeSampleRate));
+    sampleRate = Math.max(0, ...rates.filter((rate): rate is number => !!rate)) || 24000;
+  }
+
+  const decoded: Float32Array[] = [];
+  for (const blob of blobs) {
+    decoded.push(toMono(await decodeAudioBlob(blob, sampleRate)));
+  }
+
+  const silenceFrames = Math.round((silenceMs / 1000) * sampleRate);
+  const totalFrames = decoded.reduce((sum, data) => sum + data.length, 0) + silenceFrames * Math.max(0, decoded.length - 1);
+
+  const output = new Float32Array(totalFrames);
+  let offset = 0;
+  decoded.forEach((data, i) => {
+    output.set(data, offset);
+    offset += data.length;
+    if (i < decoded.length - 1) {
+      offset += silenceFrames; // Float32Array is zero-filled
+    }
+  });
+
+  return encodeWav([output], sampleRate, 16);
+};
+
+export interface AudioInfo {
+  duration: number; // seconds
+  sampleRate?: number; // Native rate, when the container exposes it
+}
+
+/**
+ * Duration and native sample rate of an audio blob.
+ * WAV headers are read directly; other containers are decoded to measure duration.
+ */
+export const getAudioInfo = async (blob: Blob): Promise<AudioInfo> => {
+  const wav = readWavInfo(await blob.arrayBuffer());
+  if (wav) {
+    return { duration: wav.duration, sampleRate: wav.sampleRate };
+  }
+
+  const { sampleRate } = await sniffAudioContainer(blob);
+  const decoded = await decodeAudioBlob(blob, sampleRate || 48000);
+  return { duration: decoded.duration, sampleRate };
+};
+
+export const getChannels = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch).slice());
+
+export const toDb = (value: number): number => (value > 0 ? 20 * Math.log10(value) : -Infinity);
+export const fromDb = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * Remove leading and trailing audio quieter than thresholdDb (all channels),
+ * keeping paddingMs of context on each side
+ */
+export const trimSilence = (
+  channels: Float32Array[],
+  sampleRate: number,
+  { thresholdDb = -50, paddingMs = 50 }: { thresholdDb?: number; paddingMs?: number } = {}
+): Float32Array[] => {
+  const threshold = fromDb(thresholdDb);
+  const length = channels[0]?.length ?? 0;
+  const isLoud = (i: number) => channels.some(data => Math.abs(data[i]) > threshold);
+
+  let start = 0;
+  while (start < length && !isLoud(start)) start++;
+  let end = length - 1;
+  while (end > start && !isLoud(end)) end--;
+
+  if (start >= length) return channels.map(() => new Float32Array(0));
+
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  const from = Math.max(0, start - padding);
+  const to = Math.min(length, end + 1 + padding);
+  return channels.map(data => data.slice(from, to));
+};
+
+/**
+ * Approximate loudness normalization: scale so the gated RMS (frames above -60 dBFS)
+ * reaches targetDb, then pull the gain back if the peak would exceed peakCeilingDb
+ */
+export const normalizeLoudness = (
+  channels: Float32Array[],
+  sampleRate: number,
+  { targetDb = -18, peakCeilingDb = -1 }: { targetDb?: number; peakCeilingDb?: number } = {}
+): Float32Array[] => {
+  const frameSize = Math.max(1, Math.round(sampleRate * 0.05)); // 50ms frames
+  const gate = fromDb(-60);
+  const length = channels[0]?.length ?? 0;
+
+  let sumSquares = 0;
+  let counted = 0;
+  let peak = 0;
+
+  for (let start = 0; start < length; start += frameSize) {
+    const end = Math.min(length, start + frameSize);
+    let frameSquares = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        frameSquares += data[i] * data[i];
+        peak = Math.max(peak, Math.abs(data[i]));
+      }
+    }
+    const frameCount = (end - start) * channels.length;
+    if (Math.sqrt(frameSquares / frameCount) > gate) {
+      sumSquares += frameSquares;
+      counted += frameCount;
+    }
+  }
+
+  if (counted === 0 || peak === 0) return channels;
+
+  const rmsDb = toDb(Math.sqrt(sumSquares / counted));
+  let gain = fromDb(targetDb - rmsDb);
+  const ceiling = fromDb(peakCeilingDb);
+  if (peak * gain > ceiling) {
+    gain = ceiling / peak;
+  }
+
+  return channels.map(data => data.map(sample => sample * gain));
+};
@@ -0,0 +1,98 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { decodeAudioBlob, getChannels, normalizeLoudness, trimSilence } from './audio';
+import { sniffAudioContainer } from './audioFormat';
+import { encodeWav } from './wav';
+
+export type ExportFormat = 'original' | 'wav' | 'mp3';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  sampleRate?: number;     // undefined keeps the native rate
+  bitDepth: 16 | 24;       // WAV only
+  mp3Bitrate: number;      // kbps, MP3 only
+  normalize: boolean;
+  targetLoudnessDb: number;
+  trimSilence: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'original',
+  bitDepth: 16,
+  mp3Bitrate: 128,
+  normalize: false,
+  targetLoudnessDb: -18,
+  trimSilence: false,
+};
+
+// Rates LAME can encode; anything else is resampled to the nearest one above
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+const MP3_BLOCK_SIZE = 1152;
+
+const toInt16 = (data: Float32Array): Int16Array => {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+};
+
+/**
+ * Encode planar float samples as MP3 (mono or stereo)
+ */
+export const encodeMp3 = (channels: Float32Array[], sampleRate: number, kbps: number): Blob => {
+  const stereo = channels.length >= 2;
+  const left = toInt16(channels[0]);
+  const right = stereo ? toInt16(channels[1]) : undefined;
+  const encoder = new Mp3Encoder(stereo ? 2 : 1, sampleRate, kbps);
+
+  const parts: BlobPart[] = [];
+  for (let i = 0; i < left.length; i += MP3_BLOCK_SIZE) {
+    const chunk = encoder.encodeBuffer(
+      left.subarray(i, i + MP3_BLOCK_SIZE),
+      right?.subarray(i, i + MP3_BLOCK_SIZE)
+    );
+    if (chunk.length > 0) parts.push(new Uint8Array(chunk));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+/**
+ * Convert an audio blob in the browser: resample, optionally trim silence and
+ * normalize loudness, then encode as WAV or MP3. 'original' with no processing
+ * returns the input untouched.
+ */
+export const exportAudio = async (blob: Blob, options: ExportOptions): Promise<{ blob: Blob; extension: string }> => {
+  const container = await sniffAudioContainer(blob);
+  const needsProcessing = options.normalize || options.trimSilence || options.sampleRate !== undefined;
+
+  if (options.format === 'original' && !needsProcessing) {
+    return { blob, extension: container.extension };
+  }
+
+  // Processed "original" audio is re-encoded losslessly
+  const format = options.format === 'original' ? 'wav' : options.format;
+
+  let sampleRate = options.sampleRate || container.sampleRate || 48000;
+  if (format === 'mp3' && !MP3_SAMPLE_RATES.includes(sampleRate)) {
+    sampleRate = MP3_SAMPLE_RATES.find(rate => rate >= sampleRate) || 48000;
+  }
+
+  const decoded = await decodeAudioBlob(blob, sampleRate);
+  let channels = getChannels(decoded);
+
+  if (options.trimSilence) {
+    channels = trimSilence(channels, sampleRate);
+  }
+  if (options.normalize) {
+    channels = normalizeLoudness(channels, sampleRate, { targetDb: options.targetLoudnessDb });
+  }
+
+  if (format === 'mp3') {
+    return { blob: encodeMp3(channels, sampleRate, options.mp3Bitrate), extension: 'mp3' };
+  }
+  return { blob: encodeWav(channels, sampleRate, options.bitDepth), extension: 'wav' };
+};
@@ -0,0 +1,138 @@
+/**
+ * Container detection from magic bytes.
+ * Blob MIME types are unreliable (backends send application/octet-stream or
+ * nothing at all), so downloads and exports look at the actual bytes.
+ */
+
+export type AudioContainerFormat = 'wav' | 'mp3' | 'ogg' | 'flac' | 'm4a' | 'webm' | 'aac' | 'unknown';
+
+export interface AudioContainer {
+  format: AudioContainerFormat;
+  extension: string;
+  mimeType: string;
+  codec?: string;      // e.g. 'opus' or 'vorbis' inside Ogg
+  sampleRate?: number; // Native rate when the header exposes it cheaply
+}
+
+const CONTAINERS: Record<AudioContainerFormat, Omit<AudioContainer, 'format'>> = {
+  wav: { extension: 'wav', mimeType: 'audio/wav' },
+  mp3: { extension: 'mp3', mimeType: 'audio/mpeg' },
+  ogg: { extension: 'ogg', mimeType: 'audio/ogg' },
+  flac: { extension: 'flac', mimeType: 'audio/flac' },
+  m4a: { extension: 'm4a', mimeType: 'audio/mp4' },
+  webm: { extension: 'webm', mimeType: 'audio/webm' },
+  aac: { extension: 'aac', mimeType: 'audio/aac' },
+  unknown: { extension: 'bin', mimeType: 'application/octet-stream' },
+};
+
+// Fallback when the bytes are not recognised but the blob carries a usable type
+const MIME_FALLBACKS: Record<string, AudioContainerFormat> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'ogg',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/webm': 'webm',
+  'audio/aac': 'aac',
+};
+
+// MPEG audio sample rate table indexed by [version bits][sample rate index]
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000],  // MPEG-2.5
+};
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const indexOfAscii = (bytes: Uint8Array, needle: string, limit: number): number => {
+  const end = Math.min(bytes.length - needle.length, limit);
+  for (let i = 0; i <= end; i++) {
+    if (ascii(bytes, i, needle.length) === needle) return i;
+  }
+  return -1;
+};
+
+const withFormat = (format: AudioContainerFormat, extra: Partial<AudioContainer> = {}): AudioContainer => ({
+  format,
+  ...CONTAINERS[format],
+  ...extra,
+});
+
+/**
+ * Detect the container of an audio blob from its first bytes
+ */
+export const sniffAudioContainer = async (blob: Blob): Promise<AudioContainer> => {
+  const bytes = new Uint8Array(await blob.slice(0, 4096).arrayBuffer());
+
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    const fmtIndex = indexOfAscii(bytes, 'fmt ', 64);
+    const sampleRate = fmtIndex >= 0 && fmtIndex + 16 <= bytes.length
+      ? new DataView(bytes.buffer).getUint32(fmtIndex + 12, true)
+      : undefined;
+    return withFormat('wav', { sampleRate });
+  }
+
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    const opusIndex = indexOfAscii(bytes, 'OpusHead', 512);
+    if (opusIndex >= 0) {
+      // Opus always decodes at 48kHz regardless of the input rate stored in the header
+      return withFormat('ogg', { codec: 'opus', mimeType: 'audio/ogg; codecs=opus', extension: 'opus', sampleRate: 48000 });
+    }
+    const vorbisIndex = indexOfAscii(bytes, 'vorbis', 512);
+    const sampleRate = vorbisIndex >= 0 && vorbisIndex + 15 <= bytes.length
+      ? new DataView(bytes.buffer).getUint32(vorbisIndex + 11, true)
+      : undefined;
+    return withFormat('ogg', { codec: vorbisIndex >= 0 ? 'vorbis' : undefined, sampleRate });
+  }
+
+  if (ascii(bytes, 0, 4) === 'fLaC') {
+    // STREAMINFO: 20-bit sample rate starting at byte 18
+    const sampleRate = bytes.length >= 21 ? (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4) : undefined;
+    return withFormat('flac', { sampleRate });
+  }
+
+  if (bytes.length >= 8 && ascii(bytes, 4, 4) === 'ftyp') {
+    return withFormat('m4a');
+  }
+
+  if (bytes.length >= 4 && bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return withFormat('webm');
+  }
+
+  // MP3: optional ID3v2 tag followed by an MPEG frame sync
+  let offset = 0;
+  if (ascii(bytes, 0, 3) === 'ID3' && bytes.length >= 10) {
+    const tagSize = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + tagSize;
+    if (offset + 4 > bytes.length) {
+      // Large tag (cover art): the frame header is beyond the sniffed window
+      return withFormat('mp3');
+    }
+  }
+
+  if (offset + 4 <= bytes.length && bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0) {
+    const version = (bytes[offset + 1] >> 3) & 0x03;
+    const layer = (bytes[offset + 1] >> 1) & 0x03;
+
+    if (layer === 0) {
+      // Layer bits 00 with a sync word is an ADTS AAC stream
+      const rateIndex = (bytes[offset + 2] >> 2) & 0x0f;
+      return withFormat('aac', { sampleRate: ADTS_SAMPLE_RATES[rateIndex] });
+    }
+
+    const rateIndex = (bytes[offset + 2] >> 2) & 0x03;
+    return withFormat('mp3', { sampleRate: MPEG_SAMPLE_RATES[version]?.[rateIndex] });
+  }
+
+  const fallback = MIME_FALLBACKS[blob.type.split(';')[0].trim().toLowerCase()];
+  return withFormat(fallback || 'unknown');
+};
@@ -0,0 +1,219 @@
+import { decodeAudioBlob, toMono, toDb, fromDb, trimSilence, normalizeLoudness } from './audio';
+import { encodeWav } from './wav';
+
+/**
+ * Quality checks for voice cloning reference audio
+ * Everything runs on a mono 24kHz decode of the file, the rate the cloning backends use
+ */
+
+export type QualityLevel = 'pass' | 'warn' | 'fail';
+
+export interface QualityCheck {
+  id: 'duration' | 'level' | 'clipping' | 'snr' | 'silence';
+  label: string;
+  value: string;   // Formatted measurement
+  level: QualityLevel;
+  hint?: string;   // What to do about a warn/fail
+}
+
+export interface AudioAnalysis {
+  duration: number;     // seconds
+  peakDb: number;       // dBFS
+  rmsDb: number;        // dBFS over speech frames
+  clippingPct: number;  // % of samples at full scale
+  snrDb: number;        // Speech level minus noise floor
+  silenceRatio: number; // 0..1 of frames below the silence threshold
+  longestPause: number; // seconds, inside the clip (leading/trailing silence excluded)
+  checks: QualityCheck[];
+  overall: QualityLevel;
+}
+
+const ANALYSIS_SAMPLE_RATE = 24000;
+const FRAME_MS = 50;
+const CLIP_THRESHOLD = 0.999;
+// Internal pauses longer than this are shortened by prepareReferenceAudio
+const MAX_PAUSE_SECONDS = 1;
+
+const LEVEL_ORDER: QualityLevel[] = ['pass', 'warn', 'fail'];
+const worst = (levels: QualityLevel[]): QualityLevel =>
+  levels.reduce((a, b) => (LEVEL_ORDER.indexOf(b) > LEVEL_ORDER.indexOf(a) ? b : a), 'pass');
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : -Infinity;
+
+// RMS of consecutive 50ms frames, in dBFS
+const frameLevels = (samples: Float32Array, sampleRate: number): number[] => {
+  const frameSize = Math.max(1, Math.round((FRAME_MS / 1000) * sampleRate));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(toDb(Math.sqrt(sum / (end - start))));
+  }
+  return levels;
+};
+
+// Frames more than 30dB under the speech level (or below -55 dBFS) count as silence
+const silenceThresholdDb = (speechDb: number): number => Math.max(-55, speechDb - 30);
+
+const formatDb = (db: number): string => (Number.isFinite(db) ? `${db.toFixed(1)} dB` : '-∞ dB');
+
+/**
+ * Measure a mono signal and grade it against the reference audio thresholds
+ */
+export const analyzeSamples = (samples: Float32Array, sampleRate: number): AudioAnalysis => {
+  const duration = samples.length / sampleRate;
+
+  let peak = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    if (value >= CLIP_THRESHOLD) clipped++;
+  }
+  const peakDb = toDb(peak);
+  const clippingPct = samples.length ? (clipped / samples.length) * 100 : 0;
+
+  // Speech level from the loud frames, noise floor from the quiet ones
+  const levels = frameLevels(samples, sampleRate);
+  const sorted = levels.filter(Number.isFinite).sort((a, b) => a - b);
+  const speechDb = percentile(sorted, 0.9);
+  const noiseDb = percentile(sorted, 0.1);
+  const snrDb = Number.isFinite(speechDb) && Number.isFinite(noiseDb) ? speechDb - noiseDb : 0;
+
+  const threshold = silenceThresholdDb(speechDb);
+  const silent = levels.map(db => db < threshold);
+  const silenceRatio = levels.length ? silent.filter(Boolean).length / levels.length : 1;
+
+  const speechFrames = levels.filter(db => db >= threshold);
+  const rmsDb = speechFrames.length
+    ? toDb(Math.sqrt(speechFrames.reduce((sum, db) => sum + fromDb(db) ** 2, 0) / speechFrames.length))
+    : -Infinity;
+
+  // Longest run of silent frames between the first and last speech frame
+  const first = silent.indexOf(false);
+  const last = silent.lastIndexOf(false);
+  let longestRun = 0;
+  let run = 0;
+  for (let i = Math.max(0, first); i <= last; i++) {
+    run = silent[i] ? run + 1 : 0;
+    longestRun = Math.max(longestRun, run);
+  }
+  const longestPause = (longestRun * FRAME_MS) / 1000;
+
+  const checks: QualityCheck[] = [
+    {
+      id: 'duration',
+      label: 'Duration',
+      value: `${duration.toFixed(1)} s`,
+      level: duration < 5 || duration > 120 ? 'fail' : duration < 10 || duration > 60 ? 'warn' : 'pass',
+      hint: duration < 10 ? 'Too short to capture the voice well; aim for 10-60 seconds.'
+        : duration > 60 ? 'Longer than most backends use; trim to under 60 seconds.' : undefined,
+    },
+    {
+      id: 'level',
+      label: 'Level (peak / RMS)',
+      value: `${formatDb(peakDb)} / ${formatDb(rmsDb)}`,
+      level: rmsDb < -45 ? 'fail' : rmsDb < -30 || peakDb < -20 ? 'warn' : 'pass',
+      hint: rmsDb < -30 || peakDb < -20 ? 'Recording is quiet; move closer to the microphone or normalize.' : undefined,
+    },
+    {
+      id: 'clipping',
+      label: 'Clipping',
+      value: `${clippingPct.toFixed(2)} %`,
+      level: clippingPct > 1 ? 'fail' : clippingPct > 0.1 ? 'warn' : 'pass',
+      hint: clippingPct > 0.1 ? 'Distorted peaks; record again with lower input gain.' : undefined,
+    },
+    {
+      id: 'snr',
+      label: 'Signal-to-noise (est.)',
+      value: formatDb(snrDb),
+      level: snrDb < 15 ? 'fail' : snrDb < 25 ? 'warn' : 'pass',
+      hint: snrDb < 25 ? 'Background noise or music detected; record in a quieter room.' : undefined,
+    },
+    {
+      id: 'silence',
+      label: 'Silence',
+      value: `${Math.round(silenceRatio * 100)} % • longest pause ${longestPause.toFixed(1)} s`,
+      level: silenceRatio > 0.5 ? 'fail' : silenceRatio > 0.3 || longestPause > 2 ? 'warn' : 'pass',
+      hint: silenceRatio > 0.3 || longestPause > 2 ? 'Long silences; trim them or read continuously.' : undefined,
+    },
+  ];
+
+  return {
+    duration,
+    peakDb,
+    rmsDb,
+    clippingPct,
+    snrDb,
+    silenceRatio,
+    longestPause,
+    checks,
+    overall: worst(checks.map(c => c.level)),
+  };
+};
+
+/**
+ * Decode a reference file and analyze it
+ */
+export const analyzeReferenceAudio = async (file: Blob): Promise<AudioAnalysis> => {
+  const decoded = await decodeAudioBlob(file, ANALYSIS_SAMPLE_RATE);
+  return analyzeSamples(toMono(decoded), ANALYSIS_SAMPLE_RATE);
+};
+
+// Cut internal pauses down to MAX_PAUSE_SECONDS, keeping half of the allowance on each side
+const shortenPauses = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const frameSize = Math.max(1, Math.round((FRAME_MS / 1000) * sampleRate));
+  const levels = frameLevels(samples, sampleRate);
+  const threshold = silenceThresholdDb(percentile(levels.filter(Number.isFinite).sort((a, b) => a - b), 0.9));
+  const maxFrames = Math.round((MAX_PAUSE_SECONDS * 1000) / FRAME_MS);
+
+  const keep: Array<[number, number]> = [];
+  let runStart = -1;
+  const flush = (end: number) => {
+    const length = end - runStart;
+    if (length > maxFrames) {
+      keep.push([runStart, runStart + maxFrames / 2]);
+      keep.push([end - maxFrames / 2, end]);
+    } else {
+      keep.push([runStart, end]);
+    }
+    runStart = -1;
+  };
+
+  for (let i = 0; i < levels.length; i++) {
+    if (levels[i] < threshold) {
+      if (runStart < 0) runStart = i;
+    } else {
+      if (runStart >= 0) flush(i);
+      keep.push([i, i + 1]);
+    }
+  }
+  if (runStart >= 0) flush(levels.length);
+
+  const parts = keep.map(([from, to]) => samples.subarray(from * frameSize, Math.min(samples.length, to * frameSize)));
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+/**
+ * Trim leading/trailing silence, shorten long pauses and normalize loudness,
+ * returning a mono 24kHz WAV file ready for upload
+ */
+export const prepareReferenceAudio = async (file: File): Promise<File> => {
+  const decoded = await decodeAudioBlob(file, ANALYSIS_SAMPLE_RATE);
+  const mono = toMono(decoded);
+  const [trimmed] = trimSilence([mono], ANALYSIS_SAMPLE_RATE, { thresholdDb: -45, paddingMs: 150 });
+  // A very quiet take can fall entirely under the trim threshold; keep it whole then
+  const source = trimmed.length > 0 ? trimmed : mono;
+  const [normalized] = normalizeLoudness([shortenPauses(source, ANALYSIS_SAMPLE_RATE)], ANALYSIS_SAMPLE_RATE, { targetDb: -20, peakCeilingDb: -1 });
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([encodeWav([normalized], ANALYSIS_SAMPLE_RATE)], `${baseName}-cleaned.wav`, { type: 'audio/wav' });
+};
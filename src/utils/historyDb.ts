@@ -0,0 +1,282 @@
+import { get, del } from 'idb-keyval';
+
+export type GenerationMode = 'batch' | 'stream' | 'long-form';
+
+export interface HistoryItem {
+  id: string;
+  text: string;
+  voice: string;
+  serviceId?: string;
+  model?: string;
+  responseFormat?: string; // MIME type of the stored audio
+  mode?: GenerationMode;
+  duration?: number;       // seconds
+  sampleRate?: number;     // Hz, when known
+  latencyMs?: number;      // Request start to final audio
+  blob: Blob;
+  timestamp: number;
+}
+
+// Metadata row; the audio lives in the blobs store under the same id
+export interface HistoryRecord extends Omit<HistoryItem, 'blob'> {
+  size: number;
+}
+
+// Position of the last loaded row; the next page starts right after it
+export interface HistoryCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface HistoryFilters {
+  search?: string;
+  voice?: string;
+  serviceId?: string;
+  from?: number; // Inclusive lower timestamp bound
+  to?: number;   // Inclusive upper timestamp bound
+}
+
+export type EvictionStrategy = 'none' | 'oldest-first' | 'size-based';
+
+export interface EvictionPolicy {
+  strategy: EvictionStrategy;
+  maxItems: number;
+  maxMegabytes: number;
+}
+
+export interface LibraryStats {
+  count: number;
+  bytes: number;
+  voices: string[];
+  services: string[];
+}
+
+const DB_NAME = 'echo-tts-library';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'items';
+const BLOBS_STORE = 'blobs';
+const LEGACY_KEY = 'tts-history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        const items = db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+        items.createIndex('timestamp', 'timestamp');
+        items.createIndex('voice', 'voice');
+        items.createIndex('serviceId', 'serviceId');
+      }
+      if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+        db.createObjectStore(BLOBS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const toRecord = ({ blob, ...rest }: HistoryItem): HistoryRecord => ({ ...rest, size: blob.size });
+
+// Case and accent insensitive form used for full-text matching
+const normalizeText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const searchTerms = (filters: HistoryFilters): string[] =>
+  normalizeText(filters.search || '').split(/\s+/).filter(Boolean);
+
+const matchesFilters = (record: Omit<HistoryItem, 'blob'>, filters: HistoryFilters, terms: string[]): boolean => {
+  if (filters.voice && record.voice !== filters.voice) return false;
+  if (filters.serviceId && record.serviceId !== filters.serviceId) return false;
+  if (filters.from !== undefined && record.timestamp < filters.from) return false;
+  if (filters.to !== undefined && record.timestamp > filters.to) return false;
+  if (terms.length > 0) {
+    const haystack = normalizeText(record.text);
+    return terms.every(term => haystack.includes(term));
+  }
+  return true;
+};
+
+/**
+ * Whether an item belongs in the list for the given search and filters
+ */
+export const matchesHistoryFilters = (item: Omit<HistoryItem, 'blob'>, filters: HistoryFilters): boolean =>
+  matchesFilters(item, filters, searchTerms(filters));
+
+/**
+ * Store one item: metadata and blob are written in a single transaction
+ */
+export const putHistoryItem = async (item: HistoryItem): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction([ITEMS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(ITEMS_STORE).put(toRecord(item));
+  tx.objectStore(BLOBS_STORE).put({ id: item.id, blob: item.blob });
+  await transactionDone(tx);
+};
+
+export const deleteHistoryItems = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openLibrary();
+  const tx = db.transaction([ITEMS_STORE, BLOBS_STORE], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(ITEMS_STORE).delete(id);
+    tx.objectStore(BLOBS_STORE).delete(id);
+  });
+  await transactionDone(tx);
+};
+
+export const clearHistoryItems = async (): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction([ITEMS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(ITEMS_STORE).clear();
+  tx.objectStore(BLOBS_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * All metadata rows, newest first (blobs are not loaded)
+ */
+export const getAllHistoryRecords = async (): Promise<HistoryRecord[]> => {
+  const db = await openLibrary();
+  const index = db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).index('timestamp');
+  const records = await promisify(index.getAll() as IDBRequest<HistoryRecord[]>);
+  return records.reverse();
+};
+
+/**
+ * Page through matching items newest first, loading blobs only for the returned page.
+ * Pages continue after the last loaded row rather than at an offset, so items added
+ * or deleted in the meantime do not shift the next page.
+ */
+export const queryHistoryItems = async (
+  filters: HistoryFilters,
+  after: HistoryCursor | null,
+  limit: number
+): Promise<{ items: HistoryItem[]; hasMore: boolean }> => {
+  const db = await openLibrary();
+  const terms = searchTerms(filters);
+
+  const page: HistoryRecord[] = [];
+  let hasMore = false;
+
+  await new Promise<void>((resolve, reject) => {
+    const index = db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).index('timestamp');
+    const request = index.openCursor(after ? IDBKeyRange.upperBound(after.timestamp) : null, 'prev');
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+
+      const record = cursor.value as HistoryRecord;
+      // Equal timestamps are walked by descending id; skip up to and including the cursor row
+      const alreadyLoaded = after !== null && record.timestamp === after.timestamp && record.id >= after.id;
+      if (!alreadyLoaded && matchesFilters(record, filters, terms)) {
+        if (page.length < limit) {
+          page.push(record);
+        } else {
+          hasMore = true;
+          return resolve();
+        }
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  const blobStore = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE);
+  const blobs = await Promise.all(
+    page.map(record => promisify(blobStore.get(record.id) as IDBRequest<{ id: string; blob: Blob } | undefined>))
+  );
+
+  const items = page.flatMap((record, i) => {
+    const entry = blobs[i];
+    if (!entry) return [];
+    const { size: _size, ...rest } = record;
+    return [{ ...rest, blob: entry.blob }];
+  });
+
+  return { items, hasMore };
+};
+
+export const getLibraryStats = async (): Promise<LibraryStats> => {
+  const records = await getAllHistoryRecords();
+  return {
+    count: records.length,
+    bytes: records.reduce((sum, r) => sum + r.size, 0),
+    voices: [...new Set(records.map(r => r.voice))].sort(),
+    services: [...new Set(records.map(r => r.serviceId).filter((s): s is string => !!s))].sort(),
+  };
+};
+
+/**
+ * Pick the ids to evict so the library fits the policy limits.
+ * oldest-first drops the oldest clips; size-based drops the largest clips first.
+ */
+export const selectEvictions = (records: HistoryRecord[], policy: EvictionPolicy, keepId?: string): string[] => {
+  if (policy.strategy === 'none') return [];
+
+  const maxBytes = policy.maxMegabytes * 1024 * 1024;
+  let count = records.length;
+  let bytes = records.reduce((sum, r) => sum + r.size, 0);
+
+  const candidates = records
+    .filter(r => r.id !== keepId)
+    .sort(policy.strategy === 'oldest-first'
+      ? (a, b) => a.timestamp - b.timestamp
+      : (a, b) => b.size - a.size);
+
+  const evicted: string[] = [];
+  for (const record of candidates) {
+    const overCount = policy.strategy === 'oldest-first' && count > policy.maxItems;
+    if (!overCount && bytes <= maxBytes) break;
+    evicted.push(record.id);
+    count--;
+    bytes -= record.size;
+  }
+  return evicted;
+};
+
+/**
+ * Move the old single-key idb-keyval history (max 5 items) into the library stores
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const legacy = await get<HistoryItem[]>(LEGACY_KEY);
+  if (!legacy || legacy.length === 0) return 0;
+
+  const db = await openLibrary();
+  const tx = db.transaction([ITEMS_STORE, BLOBS_STORE], 'readwrite');
+  legacy.forEach(item => {
+    tx.objectStore(ITEMS_STORE).put(toRecord(item));
+    tx.objectStore(BLOBS_STORE).put({ id: item.id, blob: item.blob });
+  });
+  await transactionDone(tx);
+
+  await del(LEGACY_KEY);
+  console.log(`[History] Migrated ${legacy.length} legacy item(s) into the library`);
+  return legacy.length;
+};
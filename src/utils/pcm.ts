@@ -0,0 +1,141 @@
+/**
+ * Raw PCM helpers shared by the stream players, the playback worklet and the WAV encoder
+ */
+
+export type PcmEncoding = 's16le' | 's24le' | 'f32le';
+
+export interface PcmFormat {
+  sampleRate: number;    // Hz of the incoming PCM
+  channels: number;      // Interleaved
+  encoding: PcmEncoding;
+}
+
+// What OpenAI-compatible speech endpoints return for response_format=pcm
+export const DEFAULT_PCM_FORMAT: PcmFormat = { sampleRate: 24000, channels: 1, encoding: 's16le' };
+
+// Jitter buffer policy shared by both players: fade length where playback starts or
+// runs dry (so the waveform never jumps to or from silence) and prebuffer growth per underrun
+export const FADE_SECONDS = 0.005;
+export const PREBUFFER_GROWTH = 1.5;
+
+const BYTES_PER_SAMPLE: Record<PcmEncoding, number> = { s16le: 2, s24le: 3, f32le: 4 };
+
+export const bytesPerFrame = (format: PcmFormat): number => BYTES_PER_SAMPLE[format.encoding] * format.channels;
+
+/**
+ * Decode whole frames of interleaved PCM into planar Float32 channels (-1..1)
+ */
+export const decodePcm = (bytes: Uint8Array, format: PcmFormat): Float32Array[] => {
+  const frameSize = bytesPerFrame(format);
+  const sampleSize = BYTES_PER_SAMPLE[format.encoding];
+  const frames = Math.floor(bytes.length / frameSize);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, frames * frameSize);
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < format.channels; ch++) {
+      const offset = i * frameSize + ch * sampleSize;
+      if (format.encoding === 's16le') {
+        channels[ch][i] = view.getInt16(offset, true) / 32768;
+      } else if (format.encoding === 's24le') {
+        const raw = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+        channels[ch][i] = (raw & 0x800000 ? raw - 0x1000000 : raw) / 8388608;
+      } else {
+        channels[ch][i] = view.getFloat32(offset, true);
+      }
+    }
+  }
+  return channels;
+};
+
+/**
+ * Decode a base64 string (e.g. a realtime audio delta) to bytes
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Streaming linear-interpolation resampler. Keeps the last input frame and the
+ * fractional read position between calls so chunk boundaries stay continuous.
+ */
+export const createResampler = (inputRate: number, outputRate: number) => {
+  const step = inputRate / outputRate;
+  let position = 0;                         // Next output position, in frames of the current input
+  let previous: Float32Array | null = null; // Last frame of the previous call, one value per channel
+
+  return (channels: Float32Array[]): Float32Array[] => {
+    if (inputRate === outputRate || channels.length === 0) return channels;
+
+    const carried = previous;
+    const input = carried
+      ? channels.map((data, ch) => {
+        const joined = new Float32Array(data.length + 1);
+        joined[0] = carried[ch];
+        joined.set(data, 1);
+        return joined;
+      })
+      : channels;
+    const length = input[0].length;
+    if (length < 2) {
+      if (length === 1) previous = Float32Array.from(input, data => data[0]);
+      return channels.map(() => new Float32Array(0));
+    }
+
+    // Interpolation needs the frame after each read position
+    const outputLength = Math.max(0, Math.ceil((length - 1 - position) / step));
+    const output = input.map(data => {
+      const result = new Float32Array(outputLength);
+      for (let i = 0; i < outputLength; i++) {
+        const at = position + i * step;
+        const index = Math.floor(at);
+        const frac = at - index;
+        result[i] = data[index] * (1 - frac) + data[index + 1] * frac;
+      }
+      return result;
+    });
+
+    // The last frame becomes index 0 of the next call
+    position = position + outputLength * step - (length - 1);
+    previous = Float32Array.from(input, data => data[length - 1]);
+    return output;
+  };
+};
+
+/**
+ * Read the stream format from response headers (X-Sample-Rate, X-Channels and
+ * X-Sample-Format or X-Bit-Depth) or the rate/channels parameters of the Content-Type
+ * (e.g. `audio/pcm;rate=24000;channels=1`). Anything not announced comes from the fallback.
+ */
+export const parsePcmFormat = (headers: Headers, fallback: PcmFormat): PcmFormat => {
+  const params = new Map<string, string>();
+  (headers.get('Content-Type') || '').split(';').slice(1).forEach(param => {
+    const [key, value] = param.split('=').map(part => part.trim().toLowerCase());
+    if (key && value) params.set(key, value);
+  });
+
+  const positive = (value: string | null | undefined): number | undefined => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return parsed > 0 ? parsed : undefined;
+  };
+
+  let encoding: PcmEncoding | undefined;
+  const sampleFormat = headers.get('X-Sample-Format')?.toLowerCase();
+  if (sampleFormat === 's16le' || sampleFormat === 's24le' || sampleFormat === 'f32le') {
+    encoding = sampleFormat;
+  } else {
+    const bitDepth = positive(headers.get('X-Bit-Depth'));
+    encoding = bitDepth === 16 ? 's16le' : bitDepth === 24 ? 's24le' : bitDepth === 32 ? 'f32le' : undefined;
+  }
+
+  return {
+    sampleRate: positive(headers.get('X-Sample-Rate')) ?? positive(params.get('rate')) ?? fallback.sampleRate,
+    channels: positive(headers.get('X-Channels')) ?? positive(params.get('channels')) ?? fallback.channels,
+    encoding: encoding ?? fallback.encoding,
+  };
+};
@@ -0,0 +1,374 @@
+import {
+  PcmFormat,
+  bytesPerFrame,
+  decodePcm,
+  createResampler,
+  FADE_SECONDS,
+  PREBUFFER_GROWTH
+} from './pcm';
+import processorUrl from '../worklets/pcmPlayerProcessor.ts?worker&url';
+
+/**
+ * Gapless Web Audio playback of raw interleaved PCM arriving in pieces
+ * (HTTP stream reads, WebSocket deltas), behind an adaptive jitter buffer that
+ * grows whenever the network falls behind playback.
+ *
+ * createStreamPlayer() decodes and buffers in an AudioWorklet (one ring buffer,
+ * continuous output, nothing converted on the main thread). createPcmPlayer() is the
+ * main-thread fallback: each piece is decoded, resampled to the AudioContext rate and
+ * scheduled as its own AudioBufferSourceNode right after the previous one.
+ */
+
+export interface PcmPlayerOptions {
+  format: PcmFormat;
+  context?: AudioContext;  // Reuse an existing context; otherwise one is created (and closed by close())
+  minChunkBytes?: number;  // Accumulate at least this much before scheduling (fewer, larger buffers)
+  prebuffer?: number;      // Seconds held before playback starts; grows after each underrun
+  maxPrebuffer?: number;   // Upper bound for the adaptive prebuffer
+}
+
+export interface PcmPlayerStats {
+  underruns: number;          // Times playback ran dry while the stream was still coming
+  bufferedSeconds: number;    // Audio received but not played yet
+  prebufferSeconds: number;   // Current jitter buffer target
+  firstAudioAt: number | null; // performance.now() time the first audio became audible
+}
+
+// Audio accepted by a player; decoded on the main thread only if somebody asks
+export interface PcmChunk {
+  frames: number;
+  toAudioBuffer: () => AudioBuffer;
+}
+
+export interface PcmPlayer {
+  readonly context: AudioContext;
+  readonly format: PcmFormat;
+  /** Append PCM bytes; returns the audio accepted from them, if any */
+  enqueue: (bytes: Uint8Array) => PcmChunk | null;
+  /** End of stream: play whatever is left, regardless of the prebuffer target */
+  flush: () => PcmChunk | null;
+  /** Frames of source audio scheduled so far */
+  scheduledFrames: () => number;
+  /** Seconds of source audio scheduled so far */
+  duration: () => number;
+  /** Seconds until everything received so far has played */
+  remainingTime: () => number;
+  stats: () => PcmPlayerStats;
+  /** The stream was flushed and everything has played */
+  isDrained: () => boolean;
+  /** Stop everything that is scheduled and drop pending bytes */
+  stop: () => void;
+  close: () => Promise<void>;
+}
+
+const getAudioContextClass = (): typeof AudioContext =>
+  window.AudioContext || (window as any).webkitAudioContext;
+
+export const createPcmPlayer = ({
+  format,
+  context,
+  minChunkBytes = 0,
+  prebuffer = 0.1,
+  maxPrebuffer = 2
+}: PcmPlayerOptions): PcmPlayer => {
+  const ownsContext = !context;
+  const audioContext: AudioContext = context || new (getAudioContextClass())();
+  const frameSize = bytesPerFrame(format);
+  const resample = createResampler(format.sampleRate, audioContext.sampleRate);
+
+  let pending = new Uint8Array(0);
+  let startTime = 0;        // Context time where the next buffer starts
+  let totalFrames = 0;
+  let sources: AudioBufferSourceNode[] = [];
+  let lastGain: GainNode | null = null;
+
+  // Jitter buffer: buffers are held until `target` seconds are ready, at the start and after every underrun
+  let target = prebuffer;
+  let buffering = true;
+  let held: AudioBuffer[] = [];
+  let heldDuration = 0;
+  let underruns = 0;
+  let firstAudioAt: number | null = null;
+  let ended = false;
+
+  const play = (audioBuffer: AudioBuffer, at: number, fadeIn: boolean) => {
+    const fade = Math.min(FADE_SECONDS, audioBuffer.duration / 2);
+    const end = at + audioBuffer.duration;
+
+    const source = audioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    const gain = audioContext.createGain();
+    source.connect(gain);
+    gain.connect(audioContext.destination);
+
+    if (fadeIn) {
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(1, at + fade);
+    } else {
+      gain.gain.setValueAtTime(1, at);
+      // Contiguous with the previous buffer: cancel its fade-out, the samples continue seamlessly
+      lastGain?.gain.cancelScheduledValues(at - fade);
+    }
+    // Fade out in case nothing follows in time; cancelled when the next buffer arrives
+    gain.gain.setValueAtTime(1, end - fade);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    source.onended = () => {
+      sources = sources.filter(s => s !== source);
+    };
+    source.start(at);
+    sources.push(source);
+    lastGain = gain;
+    startTime = end;
+  };
+
+  // Start playing everything held, slightly in the future to allow scheduling
+  const release = () => {
+    if (held.length === 0) return;
+    const at = audioContext.currentTime + 0.02;
+    if (firstAudioAt === null) {
+      firstAudioAt = performance.now() + (at - audioContext.currentTime) * 1000;
+    }
+    held.forEach((audioBuffer, i) => play(audioBuffer, i === 0 ? at : startTime, i === 0));
+    held = [];
+    heldDuration = 0;
+    buffering = false;
+  };
+
+  const schedule = (bytes: Uint8Array): PcmChunk | null => {
+    const decoded = decodePcm(bytes, format);
+    const frames = decoded[0]?.length ?? 0;
+    totalFrames += frames;
+    const channels = resample(decoded);
+    if (!channels[0] || channels[0].length === 0) return null;
+
+    // Buffers are built at the context rate so chunks are not resampled one by one
+    const audioBuffer = audioContext.createBuffer(channels.length, channels[0].length, audioContext.sampleRate);
+    channels.forEach((data, ch) => audioBuffer.getChannelData(ch).set(data));
+
+    // Everything scheduled has already played: count the underrun and buffer more before resuming
+    if (!buffering && startTime <= audioContext.currentTime) {
+      underruns++;
+      target = Math.min(maxPrebuffer, target * PREBUFFER_GROWTH);
+      buffering = true;
+      console.warn(`[PCM Player] Underrun #${underruns}, prebuffer now ${target.toFixed(2)}s`);
+    }
+
+    if (buffering) {
+      held.push(audioBuffer);
+      heldDuration += audioBuffer.duration;
+      if (heldDuration >= target) release();
+    } else {
+      play(audioBuffer, startTime, false);
+    }
+    return { frames, toAudioBuffer: () => audioBuffer };
+  };
+
+  // Schedule all complete frames; a partial trailing frame waits for the next piece
+  const drain = (): PcmChunk | null => {
+    const usable = pending.length - (pending.length % frameSize);
+    if (usable === 0) return null;
+    const bytes = pending.slice(0, usable);
+    pending = pending.slice(usable);
+    return schedule(bytes);
+  };
+
+  const remainingTime = () =>
+    Math.max(0, startTime - audioContext.currentTime) + (buffering ? heldDuration : 0);
+
+  return {
+    context: audioContext,
+    format,
+    enqueue: (bytes) => {
+      const merged = new Uint8Array(pending.length + bytes.length);
+      merged.set(pending, 0);
+      merged.set(bytes, pending.length);
+      pending = merged;
+      return pending.length >= Math.max(frameSize, minChunkBytes) ? drain() : null;
+    },
+    // End of stream: nothing more is coming, so play whatever is held regardless of the target
+    flush: () => {
+      const chunk = drain();
+      release();
+      ended = true;
+      return chunk;
+    },
+    scheduledFrames: () => totalFrames,
+    duration: () => totalFrames / format.sampleRate,
+    remainingTime,
+    stats: () => ({
+      underruns,
+      bufferedSeconds: remainingTime(),
+      prebufferSeconds: target,
+      firstAudioAt
+    }),
+    isDrained: () => ended && remainingTime() <= 0,
+    stop: () => {
+      sources.forEach(source => {
+        try {
+          source.stop();
+        } catch {
+          // Already stopped
+        }
+      });
+      sources = [];
+      pending = new Uint8Array(0);
+      held = [];
+      heldDuration = 0;
+      buffering = true;
+      lastGain = null;
+      startTime = 0;
+    },
+    close: async () => {
+      if (ownsContext && audioContext.state !== 'closed') {
+        await audioContext.close();
+      }
+    },
+  };
+};
+
+// Messages between WorkletPcmPlayer and pcmPlayerProcessor
+export type ProcessorCommand =
+  | { type: 'push'; data: ArrayBuffer } // Whole frames of source PCM
+  | { type: 'end' }
+  | { type: 'stop' }
+  | { type: 'close' };
+
+export type ProcessorEvent =
+  | { type: 'started' }
+  | { type: 'stats'; bufferedSeconds: number; underruns: number; prebufferSeconds: number }
+  | { type: 'drained' };
+
+export interface WorkletProcessorOptions {
+  format: PcmFormat;
+  prebuffer: number;
+  maxPrebuffer: number;
+}
+
+// Contexts that already loaded the processor module
+const workletModules = new WeakMap<AudioContext, Promise<void>>();
+
+const loadProcessor = (audioContext: AudioContext): Promise<void> => {
+  let loading = workletModules.get(audioContext);
+  if (!loading) {
+    loading = audioContext.audioWorklet.addModule(processorUrl);
+    workletModules.set(audioContext, loading);
+  }
+  return loading;
+};
+
+const createWorkletPlayer = async ({
+  format,
+  context,
+  prebuffer = 0.1,
+  maxPrebuffer = 2
+}: PcmPlayerOptions): Promise<PcmPlayer> => {
+  const ownsContext = !context;
+  const audioContext: AudioContext = context || new (getAudioContextClass())();
+  try {
+    await loadProcessor(audioContext);
+  } catch (err) {
+    if (ownsContext) await audioContext.close();
+    throw err;
+  }
+
+  const processorOptions: WorkletProcessorOptions = { format, prebuffer, maxPrebuffer };
+  const node = new AudioWorkletNode(audioContext, 'pcm-player', {
+    numberOfInputs: 0,
+    outputChannelCount: [format.channels],
+    processorOptions
+  });
+  node.connect(audioContext.destination);
+
+  const frameSize = bytesPerFrame(format);
+  let carry = new Uint8Array(0); // Partial frame left over from the previous piece
+  let totalFrames = 0;
+  let ended = false;
+  let drained = false;
+  let firstAudioAt: number | null = null;
+  let latest = { bufferedSeconds: 0, underruns: 0, prebufferSeconds: prebuffer };
+
+  node.port.onmessage = (event: MessageEvent<ProcessorEvent>) => {
+    const message = event.data;
+    if (message.type === 'started') {
+      firstAudioAt ??= performance.now();
+    } else if (message.type === 'stats') {
+      const { type: _type, ...stats } = message;
+      latest = stats;
+    } else if (message.type === 'drained') {
+      drained = true;
+      latest = { ...latest, bufferedSeconds: 0 };
+    }
+  };
+
+  const post = (command: ProcessorCommand) => node.port.postMessage(command);
+
+  return {
+    context: audioContext,
+    format,
+    enqueue: (bytes) => {
+      // Only the carried partial frame is ever copied; the worklet gets whole frames
+      const joined = carry.length > 0 ? new Uint8Array(carry.length + bytes.length) : bytes;
+      if (carry.length > 0) {
+        joined.set(carry, 0);
+        joined.set(bytes, carry.length);
+      }
+      const usable = joined.length - (joined.length % frameSize);
+      carry = joined.slice(usable);
+      if (usable === 0) return null;
+
+      const frameBytes = joined.slice(0, usable);
+      post({ type: 'push', data: frameBytes.buffer });
+      const frames = usable / frameSize;
+      totalFrames += frames;
+      return {
+        frames,
+        toAudioBuffer: () => {
+          const channels = decodePcm(frameBytes, format);
+          const audioBuffer = audioContext.createBuffer(channels.length, frames, format.sampleRate);
+          channels.forEach((data, ch) => audioBuffer.getChannelData(ch).set(data));
+          return audioBuffer;
+        }
+      };
+    },
+    flush: () => {
+      carry = new Uint8Array(0);
+      ended = true;
+      post({ type: 'end' });
+      return null;
+    },
+    scheduledFrames: () => totalFrames,
+    duration: () => totalFrames / format.sampleRate,
+    remainingTime: () => (drained ? 0 : latest.bufferedSeconds),
+    stats: () => ({ ...latest, firstAudioAt }),
+    isDrained: () => ended && drained,
+    stop: () => {
+      post({ type: 'stop' });
+      carry = new Uint8Array(0);
+      latest = { ...latest, bufferedSeconds: 0 };
+    },
+    close: async () => {
+      post({ type: 'close' });
+      node.port.onmessage = null;
+      node.disconnect();
+      if (ownsContext && audioContext.state !== 'closed') {
+        await audioContext.close();
+      }
+    },
+  };
+};
+
+/**
+ * Player for a live stream: the AudioWorklet player where available, otherwise
+ * (no AudioWorklet, e.g. outside a secure context) the AudioBufferSourceNode player
+ */
+export const createStreamPlayer = async (options: PcmPlayerOptions): Promise<PcmPlayer> => {
+  if (typeof AudioWorkletNode !== 'undefined') {
+    try {
+      return await createWorkletPlayer(options);
+    } catch (err) {
+      console.warn('[PCM Player] AudioWorklet unavailable, scheduling buffers on the main thread:', err);
+    }
+  }
+  return createPcmPlayer(options);
+};
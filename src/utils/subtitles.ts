@@ -0,0 +1,190 @@
+/**
+ * Subtitle exports (SRT, WebVTT, JSON) built from STT word and segment timestamps
+ */
+
+export interface TranscriptWord {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  segment: string;
+}
+
+export interface TranscriptTimestamps {
+  word?: TranscriptWord[];
+  segment?: TranscriptSegment[];
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface SubtitleOptions {
+  maxLineLength: number;  // Characters per line
+  maxLines: number;       // Lines per cue
+  maxCueDuration: number; // Seconds
+}
+
+// Common broadcast limits: 42 characters, two lines, up to 6 seconds on screen
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 6,
+};
+
+/**
+ * Greedy word wrap; a word longer than the limit gets a line of its own
+ */
+export const wrapText = (text: string, maxLineLength: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const fits = (text: string, duration: number, options: SubtitleOptions): boolean =>
+  duration <= options.maxCueDuration && wrapText(text, options.maxLineLength).length <= options.maxLines;
+
+// Group consecutive words into cues that respect the line and duration limits
+const cuesFromWords = (words: TranscriptWord[], options: SubtitleOptions): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let current: TranscriptWord[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrapText(current.map(w => w.text).join(' '), options.maxLineLength),
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const text = [...current, word].map(w => w.text).join(' ');
+      if (!fits(text, word.end - current[0].start, options)) close();
+    }
+    current.push(word);
+  }
+  close();
+  return cues;
+};
+
+// No word timings: split the segment text into pieces that fit and share its time span by length
+const cuesFromText = (segment: TranscriptSegment, options: SubtitleOptions): SubtitleCue[] => {
+  const lines = wrapText(segment.segment, options.maxLineLength);
+  const duration = segment.end - segment.start;
+  const totalChars = lines.reduce((sum, line) => sum + line.length, 0) || 1;
+  const maxPieces = Math.max(1, Math.ceil(duration / options.maxCueDuration));
+  const linesPerCue = Math.max(1, Math.min(options.maxLines, Math.ceil(lines.length / maxPieces)));
+
+  const cues: SubtitleCue[] = [];
+  let start = segment.start;
+  for (let i = 0; i < lines.length; i += linesPerCue) {
+    const cueLines = lines.slice(i, i + linesPerCue);
+    const chars = cueLines.reduce((sum, line) => sum + line.length, 0);
+    const end = i + linesPerCue >= lines.length ? segment.end : start + (duration * chars) / totalChars;
+    cues.push({ start, end, lines: cueLines });
+    start = end;
+  }
+  return cues;
+};
+
+/**
+ * Assign each word to the last segment starting before its midpoint, so none fall between segments
+ */
+export const groupWordsBySegment = (words: TranscriptWord[], segments: TranscriptSegment[]): TranscriptWord[][] => {
+  const groups: TranscriptWord[][] = segments.map(() => []);
+  if (segments.length === 0) return groups;
+  for (const word of words) {
+    const mid = (word.start + word.end) / 2;
+    let index = 0;
+    while (index + 1 < segments.length && segments[index + 1].start <= mid) index++;
+    groups[index].push(word);
+  }
+  return groups;
+};
+
+/**
+ * Build subtitle cues: segments that fit are used as they are, longer ones are
+ * re-segmented from their word timestamps (or split by text length without them)
+ */
+export const buildCues = (
+  timestamps: TranscriptTimestamps | undefined,
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): SubtitleCue[] => {
+  const words = timestamps?.word || [];
+  const segments = timestamps?.segment || [];
+
+  if (segments.length === 0) {
+    return cuesFromWords(words, options);
+  }
+
+  const segmentWords = groupWordsBySegment(words, segments);
+
+  const cues = segments.flatMap((segment, i) => {
+    const text = segment.segment.trim();
+    if (!text) return [];
+    if (fits(text, segment.end - segment.start, options)) {
+      return [{ start: segment.start, end: segment.end, lines: wrapText(text, options.maxLineLength) }];
+    }
+    return segmentWords[i].length > 0
+      ? cuesFromWords(segmentWords[i], options)
+      : cuesFromText({ ...segment, segment: text }, options);
+  });
+
+  // Players dislike overlapping cues
+  for (let i = 1; i < cues.length; i++) {
+    if (cues[i].start < cues[i - 1].end) cues[i - 1].end = cues[i].start;
+  }
+  return cues;
+};
+
+const formatTime = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTime(cue.start, ',')} --> ${formatTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+
+export const formatVtt = (cues: SubtitleCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map(cue => `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n')}`;
+
+/**
+ * Raw transcript with word and segment timings for downstream tools
+ */
+export const formatTranscriptJson = (text: string, timestamps: TranscriptTimestamps | undefined): string =>
+  JSON.stringify(
+    {
+      text,
+      words: timestamps?.word || [],
+      segments: timestamps?.segment || [],
+    },
+    null,
+    2
+  );
@@ -0,0 +1,123 @@
+/**
+ * Sentence/paragraph-aware text splitting for long-form synthesis
+ * Segments are slices of the original text, so nothing is rewritten before synthesis.
+ */
+
+export interface SegmentOptions {
+  maxChars?: number; // Hard upper bound per segment
+  minChars?: number; // Paragraph breaks only start a new segment once this is reached
+}
+
+// A [start, end) range of the original text
+interface TextUnit {
+  start: number;
+  end: number;
+  paragraphStart: boolean;
+}
+
+// End of a sentence: terminal punctuation (plus closing quotes/brackets) followed by
+// whitespace or the end of the text, so "$3.50", "example.com" or a leading "..." stay whole.
+// CJK terminators are not followed by spaces and always end a sentence.
+const SENTENCE_END_REGEX = /[.!?…]+["'”’)\]]*(?=\s|$)|[。！？]+["'”’)\]]*/g;
+
+const PARAGRAPH_BREAK_REGEX = /\n\s*\n/g;
+
+// Narrow a range so it neither starts nor ends with whitespace
+const trimRange = (text: string, start: number, end: number): [number, number] => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+};
+
+// Ranges of the paragraphs, separated by blank lines
+const findParagraphs = (text: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+  for (const match of text.matchAll(PARAGRAPH_BREAK_REGEX)) {
+    ranges.push([start, match.index]);
+    start = match.index + match[0].length;
+  }
+  ranges.push([start, text.length]);
+  return ranges;
+};
+
+// Ranges of the sentences within [start, end)
+const findSentences = (text: string, start: number, end: number): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let sentenceStart = start;
+  for (const match of text.slice(start, end).matchAll(SENTENCE_END_REGEX)) {
+    const sentenceEnd = start + match.index + match[0].length;
+    ranges.push([sentenceStart, sentenceEnd]);
+    sentenceStart = sentenceEnd;
+  }
+  ranges.push([sentenceStart, end]);
+  return ranges;
+};
+
+// Break an over-long sentence at clause punctuation, then at whitespace
+const splitLongSentence = (text: string, start: number, end: number, maxChars: number): Array<[number, number]> => {
+  const parts: Array<[number, number]> = [];
+  let rest = start;
+
+  while (end - rest > maxChars) {
+    const window = text.slice(rest, rest + maxChars);
+    let cut = Math.max(
+      window.lastIndexOf(', '),
+      window.lastIndexOf('; '),
+      window.lastIndexOf(': '),
+      window.lastIndexOf(' – '),
+      window.lastIndexOf(' — ')
+    );
+    if (cut <= 0) {
+      cut = window.lastIndexOf(' ');
+    }
+    // No whitespace at all: hard cut
+    const index = rest + (cut > 0 ? cut + 1 : maxChars);
+    parts.push(trimRange(text, rest, index));
+    rest = trimRange(text, index, end)[0];
+  }
+
+  if (rest < end) parts.push([rest, end]);
+  return parts;
+};
+
+/**
+ * Split text into synthesis-sized segments.
+ * Segments never exceed maxChars, prefer to end at paragraph boundaries
+ * and otherwise end at sentence boundaries.
+ */
+export const splitTextIntoSegments = (text: string, { maxChars = 600, minChars = 200 }: SegmentOptions = {}): string[] => {
+  const units: TextUnit[] = [];
+
+  findParagraphs(text).forEach(([paragraphStart, paragraphEnd]) => {
+    let first = true;
+    findSentences(text, paragraphStart, paragraphEnd).forEach(([sentenceStart, sentenceEnd]) => {
+      const [start, end] = trimRange(text, sentenceStart, sentenceEnd);
+      if (start === end) return;
+      splitLongSentence(text, start, end, maxChars).forEach(([partStart, partEnd]) => {
+        units.push({ start: partStart, end: partEnd, paragraphStart: first });
+        first = false;
+      });
+    });
+  });
+
+  const segments: string[] = [];
+  let current: { start: number; end: number } | null = null;
+
+  for (const unit of units) {
+    const exceedsMax = current !== null && unit.end - current.start > maxChars;
+    const paragraphBreak = current !== null && unit.paragraphStart && current.end - current.start >= minChars;
+
+    if (current && (exceedsMax || paragraphBreak)) {
+      segments.push(text.slice(current.start, current.end));
+      current = { start: unit.start, end: unit.end };
+    } else if (current) {
+      current.end = unit.end;
+    } else {
+      current = { start: unit.start, end: unit.end };
+    }
+  }
+
+  if (current) segments.push(text.slice(current.start, current.end));
+  return segments;
+};
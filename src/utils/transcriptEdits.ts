@@ -0,0 +1,283 @@
+import { TranscriptTimestamps, TranscriptWord, groupWordsBySegment } from './subtitles';
+
+/**
+ * Timing-preserving transcript edits
+ * The editor works on segments that own their words; untouched words keep their
+ * timestamps and new or changed words take the time span of the words they replace.
+ */
+
+export interface Transcript {
+  text: string;
+  timestamps?: TranscriptTimestamps;
+}
+
+export interface EditableSegment {
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptWord[]; // Empty when the transcript has no word timestamps
+}
+
+export interface EditableTranscript {
+  segments: EditableSegment[];
+  timed: boolean;       // False for plain-text transcripts: a single untimed segment
+  hasSegments: boolean; // The source had segment timestamps (kept in the output even if one remains)
+  hasWords: boolean;
+}
+
+export interface FindOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+const tokenize = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+export const toEditable = (transcript: Transcript): EditableTranscript => {
+  const words = transcript.timestamps?.word || [];
+  const segments = transcript.timestamps?.segment || [];
+  const hasWords = words.length > 0;
+
+  if (segments.length > 0) {
+    const groups = groupWordsBySegment(words, segments);
+    return {
+      segments: segments.map((segment, i) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.segment.trim(),
+        words: groups[i],
+      })),
+      timed: true,
+      hasSegments: true,
+      hasWords,
+    };
+  }
+
+  if (hasWords) {
+    return {
+      segments: [{
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        text: words.map(w => w.text).join(' '),
+        words,
+      }],
+      timed: true,
+      hasSegments: false,
+      hasWords,
+    };
+  }
+
+  return {
+    segments: [{ start: 0, end: 0, text: transcript.text, words: [] }],
+    timed: false,
+    hasSegments: false,
+    hasWords: false,
+  };
+};
+
+export const fromEditable = (editable: EditableTranscript): Transcript => {
+  const text = editable.segments.map(s => s.text).filter(Boolean).join(' ');
+  if (!editable.timed) return { text };
+
+  const timestamps: TranscriptTimestamps = {};
+  if (editable.hasSegments || editable.segments.length > 1) {
+    timestamps.segment = editable.segments.map(s => ({ start: s.start, end: s.end, segment: s.text }));
+  }
+  if (editable.hasWords) {
+    timestamps.word = editable.segments.flatMap(s => s.words);
+  }
+  return { text, timestamps };
+};
+
+// Longest common subsequence of the two token lists, as index pairs
+const alignTokens = (a: string[], b: string[]): Array<[number, number]> => {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Spread tokens over [start, end] in proportion to their length
+const distribute = (tokens: string[], start: number, end: number): TranscriptWord[] => {
+  const totalChars = tokens.reduce((sum, token) => sum + token.length, 0) || 1;
+  const span = Math.max(0, end - start);
+  let cursor = start;
+  return tokens.map(token => {
+    const wordStart = cursor;
+    cursor += (span * token.length) / totalChars;
+    return { start: wordStart, end: cursor, text: token };
+  });
+};
+
+/**
+ * Re-time a segment's words for new text: matching words keep their timestamps, each
+ * run of changed words shares the span of the old words it replaces (or the gap it sits in)
+ */
+export const retimeWords = (segment: EditableSegment, text: string): TranscriptWord[] => {
+  const tokens = tokenize(text);
+  if (segment.words.length === 0 || tokens.length === 0) return [];
+
+  const oldWords = segment.words;
+  const anchors = alignTokens(oldWords.map(w => w.text), tokens);
+  // Sentinels so every run of changed tokens sits between two anchors
+  const bounds: Array<[number, number]> = [[-1, -1], ...anchors, [oldWords.length, tokens.length]];
+
+  const words: TranscriptWord[] = [];
+  for (let k = 0; k < bounds.length - 1; k++) {
+    const [oldFrom, newFrom] = bounds[k];
+    const [oldTo, newTo] = bounds[k + 1];
+
+    if (oldFrom >= 0) words.push(oldWords[oldFrom]);
+
+    const inserted = tokens.slice(newFrom + 1, newTo);
+    if (inserted.length === 0) continue;
+
+    const replaced = oldWords.slice(oldFrom + 1, oldTo);
+    const start = replaced.length > 0
+      ? replaced[0].start
+      : oldFrom >= 0 ? oldWords[oldFrom].end : segment.start;
+    const end = replaced.length > 0
+      ? replaced[replaced.length - 1].end
+      : oldTo < oldWords.length ? oldWords[oldTo].start : segment.end;
+    words.push(...distribute(inserted, start, Math.max(start, end)));
+  }
+  return words;
+};
+
+export const updateSegmentText = (editable: EditableTranscript, index: number, text: string): EditableTranscript => {
+  const segments = editable.segments.map((segment, i) => {
+    if (i !== index) return segment;
+    const words = retimeWords(segment, text);
+    return { ...segment, text: segment.words.length > 0 ? tokenize(text).join(' ') : text.trim(), words };
+  });
+  return { ...editable, segments };
+};
+
+/**
+ * Merge a segment with the one after it
+ */
+export const mergeSegments = (editable: EditableTranscript, index: number): EditableTranscript => {
+  const first = editable.segments[index];
+  const second = editable.segments[index + 1];
+  if (!first || !second) return editable;
+
+  const merged: EditableSegment = {
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    text: [first.text, second.text].filter(Boolean).join(' '),
+    words: [...first.words, ...second.words],
+  };
+  return {
+    ...editable,
+    segments: [...editable.segments.slice(0, index), merged, ...editable.segments.slice(index + 2)],
+  };
+};
+
+/**
+ * Number of words before a cursor position; a cursor inside a word counts that word
+ */
+export const countWordsBefore = (text: string, offset: number): number => tokenize(text.slice(0, offset)).length;
+
+/**
+ * Split a segment so its first `count` words form one part
+ * The new boundary falls between the word timestamps, or by text length without them
+ */
+export const splitSegment = (editable: EditableTranscript, index: number, count: number): EditableTranscript => {
+  const segment = editable.segments[index];
+  if (!segment || !editable.timed) return editable;
+
+  const tokens = tokenize(segment.text);
+  if (count === 0 || count >= tokens.length) return editable;
+
+  const firstText = tokens.slice(0, count).join(' ');
+  const secondText = tokens.slice(count).join(' ');
+
+  let firstWords: TranscriptWord[] = [];
+  let secondWords: TranscriptWord[] = [];
+  let firstEnd: number;
+  let secondStart: number;
+
+  if (segment.words.length > 1) {
+    // Text and words normally match one to one; otherwise split the words proportionally
+    const wordCount = segment.words.length === tokens.length
+      ? count
+      : Math.min(segment.words.length - 1, Math.max(1, Math.round((count * segment.words.length) / tokens.length)));
+    firstWords = segment.words.slice(0, wordCount);
+    secondWords = segment.words.slice(wordCount);
+    firstEnd = firstWords[firstWords.length - 1].end;
+    secondStart = secondWords[0].start;
+  } else {
+    const ratio = firstText.length / (firstText.length + secondText.length);
+    firstEnd = secondStart = segment.start + (segment.end - segment.start) * ratio;
+    if (segment.words.length === 1) {
+      // A single word cannot be split; it stays with the part that holds its midpoint
+      const word = segment.words[0];
+      if ((word.start + word.end) / 2 < firstEnd) firstWords = [word];
+      else secondWords = [word];
+    }
+  }
+
+  const parts: EditableSegment[] = [
+    { start: segment.start, end: firstEnd, text: firstText, words: firstWords },
+    { start: secondStart, end: segment.end, text: secondText, words: secondWords },
+  ];
+  return {
+    ...editable,
+    segments: [...editable.segments.slice(0, index), ...parts, ...editable.segments.slice(index + 1)],
+  };
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const buildFindPattern = (find: string, { matchCase, wholeWord }: FindOptions): RegExp | null => {
+  if (!find) return null;
+  const source = escapeRegExp(find);
+  return new RegExp(wholeWord ? `(?<![\\p{L}\\p{N}_])${source}(?![\\p{L}\\p{N}_])` : source, matchCase ? 'gu' : 'giu');
+};
+
+export const countMatches = (editable: EditableTranscript, find: string, options: FindOptions): number => {
+  const pattern = buildFindPattern(find, options);
+  if (!pattern) return 0;
+  return editable.segments.reduce((sum, segment) => sum + (segment.text.match(pattern)?.length ?? 0), 0);
+};
+
+/**
+ * Replace every match across the transcript, re-timing only the words that changed
+ */
+export const replaceAll = (
+  editable: EditableTranscript,
+  find: string,
+  replacement: string,
+  options: FindOptions
+): { transcript: EditableTranscript; count: number } => {
+  const pattern = buildFindPattern(find, options);
+  if (!pattern) return { transcript: editable, count: 0 };
+
+  let count = 0;
+  let result = editable;
+  editable.segments.forEach((segment, i) => {
+    const matches = segment.text.match(pattern)?.length ?? 0;
+    if (matches === 0) return;
+    count += matches;
+    // Function replacer: `$` in the replacement is literal text, not a group reference
+    result = updateSegmentText(result, i, segment.text.replace(pattern, () => replacement));
+  });
+  return { transcript: result, count };
+};
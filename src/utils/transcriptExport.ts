@@ -0,0 +1,61 @@
+import { Transcript } from './transcriptEdits';
+import { SubtitleOptions, DEFAULT_SUBTITLE_OPTIONS, buildCues, formatSrt, formatVtt, formatTranscriptJson } from './subtitles';
+
+/**
+ * Downloadable transcript formats, shared by the result view and the transcription history
+ */
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'json';
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string; detail: string; needsTimestamps: boolean }> = [
+  { id: 'txt', label: 'Text (.txt)', detail: 'Plain transcript, with segment times when timestamps are on', needsTimestamps: false },
+  { id: 'srt', label: 'SubRip (.srt)', detail: 'Subtitles for video editors', needsTimestamps: true },
+  { id: 'vtt', label: 'WebVTT (.vtt)', detail: 'Subtitles for web players', needsTimestamps: true },
+  { id: 'json', label: 'JSON (.json)', detail: 'Text with word and segment timings', needsTimestamps: false },
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  txt: 'text/plain',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+};
+
+export const hasTranscriptTimestamps = (transcript: Transcript): boolean =>
+  !!(transcript.timestamps?.segment?.length || transcript.timestamps?.word?.length);
+
+/**
+ * Format timestamp to MM:SS.s
+ */
+const formatTimestamp = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1);
+  return `${String(mins).padStart(2, '0')}:${secs.padStart(4, '0')}`;
+};
+
+/**
+ * Plain text, one "[start - end] text" line per segment when timestamps are shown
+ */
+export const formatTranscriptText = (transcript: Transcript, withTimestamps: boolean): string => {
+  if (!withTimestamps || !transcript.timestamps?.segment) {
+    return transcript.text;
+  }
+
+  return transcript.timestamps.segment
+    .map((seg) => `[${formatTimestamp(seg.start)} - ${formatTimestamp(seg.end)}] ${seg.segment}`)
+    .join('\n');
+};
+
+export const createTranscriptExport = (
+  format: ExportFormat,
+  transcript: Transcript,
+  { withTimestamps = false, subtitleOptions = DEFAULT_SUBTITLE_OPTIONS }: { withTimestamps?: boolean; subtitleOptions?: SubtitleOptions } = {}
+): Blob => {
+  const contents: Record<ExportFormat, () => string> = {
+    txt: () => formatTranscriptText(transcript, withTimestamps),
+    srt: () => formatSrt(buildCues(transcript.timestamps, subtitleOptions)),
+    vtt: () => formatVtt(buildCues(transcript.timestamps, subtitleOptions)),
+    json: () => formatTranscriptJson(transcript.text, transcript.timestamps),
+  };
+  return new Blob([contents[format]()], { type: MIME_TYPES[format] });
+};
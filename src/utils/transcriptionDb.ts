@@ -0,0 +1,83 @@
+import { TranscriptTimestamps } from './subtitles';
+
+/**
+ * IndexedDB store for the STT transcription history
+ * Only the result is kept; uploaded audio can be up to 100MB and stays in S3
+ */
+
+export interface TranscriptionRecord {
+  id: string;                 // Upload UUID, also the key for local edits
+  name: string;               // Display name, the filename until renamed
+  filename: string;
+  duration?: number;          // seconds, when known
+  includeTimestamps: boolean; // Timestamp mode the file was transcribed with
+  text: string;
+  timestamps?: TranscriptTimestamps;
+  timestamp: number;          // When the transcription finished
+}
+
+const DB_NAME = 'echo-stt-history';
+const DB_VERSION = 1;
+const STORE = 'transcriptions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const putTranscription = async (record: TranscriptionRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const deleteTranscription = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * All transcriptions, newest first
+ */
+export const getAllTranscriptions = async (): Promise<TranscriptionRecord[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('timestamp');
+  const records = await promisify(index.getAll() as IDBRequest<TranscriptionRecord[]>);
+  return records.reverse();
+};
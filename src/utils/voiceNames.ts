@@ -0,0 +1,26 @@
+/**
+ * Voice id and display name rules for reference voice uploads
+ * Kept in sync with toVoiceSlug/toDisplayName in server.js, which has the final say
+ */
+
+/** "Dorota Nowak" -> "dorota-nowak"; accents are folded to ASCII */
+export function toVoiceSlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+}
+
+/** "dorota_nowak" -> "Dorota Nowak" */
+export function toDisplayName(name: string): string {
+  return name
+    .trim()
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
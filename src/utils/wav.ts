@@ -0,0 +1,153 @@
+import { PcmFormat, decodePcm } from './pcm';
+
+/**
+ * WAV (RIFF) encoding helpers shared by the TTS hooks and export tools
+ */
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+// Writes the 44-byte canonical PCM header and returns the view over the full buffer
+const createWavBuffer = (
+  dataSize: number,
+  sampleRate: number,
+  numChannels: number,
+  bitsPerSample: number
+): { buffer: ArrayBuffer; view: DataView } => {
+  const blockAlign = numChannels * (bitsPerSample / 8);
+  const byteRate = sampleRate * blockAlign;
+  const bufferSize = 44 + dataSize;
+
+  const buffer = new ArrayBuffer(bufferSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, bufferSize - 8, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // chunk size
+  view.setUint16(20, 1, true); // audio format (PCM)
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  return { buffer, view };
+};
+
+/**
+ * Wrap raw 16-bit little-endian PCM bytes (one block or the chunks of a stream) in a WAV container
+ */
+export const createWavBlob = (pcmData: Uint8Array | Uint8Array[], sampleRate: number, numChannels = 1): Blob => {
+  const chunks = Array.isArray(pcmData) ? pcmData : [pcmData];
+  const dataSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const { buffer } = createWavBuffer(dataSize, sampleRate, numChannels, 16);
+  let offset = 44;
+  for (const chunk of chunks) {
+    new Uint8Array(buffer, offset, chunk.length).set(chunk);
+    offset += chunk.length;
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Wrap streamed PCM chunks of any supported format in a WAV container.
+ * 16-bit streams are copied as-is; 24-bit and float streams are re-encoded.
+ */
+export const createWavBlobFromPcm = (chunks: Uint8Array[], format: PcmFormat): Blob => {
+  if (format.encoding === 's16le') {
+    return createWavBlob(chunks, format.sampleRate, format.channels);
+  }
+  const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return encodeWav(decodePcm(joined, format), format.sampleRate, format.encoding === 's24le' ? 24 : 16);
+};
+
+/**
+ * Encode planar float samples (-1..1) as an interleaved 16 or 24-bit WAV
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: 16 | 24 = 16): Blob => {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const { buffer, view } = createWavBuffer(frames * numChannels * bytesPerSample, sampleRate, numChannels, bitDepth);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = Math.max(-1, Math.min(1, channels[ch][i]));
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      } else {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export interface WavInfo {
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+  duration: number; // seconds
+}
+
+/**
+ * Read format details from a RIFF/WAVE header, or null if the buffer is not a WAV
+ */
+export const readWavInfo = (buffer: ArrayBuffer): WavInfo | null => {
+  if (buffer.byteLength < 12) return null;
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+  let fmt: Omit<WavInfo, 'duration'> | null = null;
+  let offset = 12;
+
+  // Walk the chunk list; fmt normally precedes data but other chunks (LIST, fact) may sit in between
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ' && offset + 24 <= buffer.byteLength) {
+      fmt = {
+        numChannels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (id === 'data' && fmt) {
+      // Streamed WAVs may carry a placeholder size; clamp to what is actually present
+      const dataSize = Math.min(size, buffer.byteLength - offset - 8);
+      const bytesPerFrame = fmt.numChannels * (fmt.bitsPerSample / 8);
+      return { ...fmt, duration: bytesPerFrame > 0 ? dataSize / bytesPerFrame / fmt.sampleRate : 0 };
+    }
+
+    offset += 8 + size + (size % 2); // Chunks are word aligned
+  }
+
+  return null;
+};
@@ -16,6 +16,10 @@ interface Window {
     VITE_ALIBABA_API_KEY?: string;
     VITE_ALIBABA_VOICE_API?: string;
     VITE_ALIBABA_TTS_MODEL?: string;
+    VITE_SUPABASE_URL?: string;
+    VITE_SUPABASE_ANON_KEY?: string;
+    TTS_SERVICES?: string; // JSON array of resolved services.json entries, injected by server.js
+    TTS_PROXY_MODE?: string; // 'server' (keys stay on the server) or 'direct'
     [key: string]: string | undefined;
   }
 }
@@ -35,6 +39,9 @@ interface ImportMetaEnv {
   readonly VITE_ALIBABA_API_KEY?: string;
   readonly VITE_ALIBABA_VOICE_API?: string;
   readonly VITE_ALIBABA_TTS_MODEL?: string;
+  readonly VITE_TTS_PROXY_MODE?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,182 @@
+import { decodePcm, createResampler, FADE_SECONDS, PREBUFFER_GROWTH } from '../utils/pcm';
+import type { ProcessorCommand, ProcessorEvent, WorkletProcessorOptions } from '../utils/pcmPlayer';
+
+/**
+ * AudioWorklet side of the stream player: decodes pushed PCM on the audio thread,
+ * resamples it to the context rate into a growable ring buffer and renders it
+ * continuously, with the same adaptive prebuffer and fades as the main-thread player.
+ */
+
+// AudioWorkletGlobalScope (not part of the DOM lib)
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+const INITIAL_CAPACITY_SECONDS = 10;
+const STATS_INTERVAL_SECONDS = 0.1;
+
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  private readonly options: WorkletProcessorOptions;
+  private readonly resample: (channels: Float32Array[]) => Float32Array[];
+  private readonly fadeFrames = Math.max(1, Math.round(FADE_SECONDS * sampleRate));
+  private readonly statsEvery: number;
+
+  // Ring buffer of output-rate frames, one array per channel; read/write only grow
+  private ring: Float32Array[];
+  private readIndex = 0;
+  private writeIndex = 0;
+
+  private target: number;   // Prebuffer, in seconds
+  private buffering = true;
+  private ended = false;
+  private closed = false;
+  private started = false;
+  private drainedSent = false;
+  private underruns = 0;
+  private fadeInRemaining = 0;
+  private blocks = 0;
+
+  constructor(options: { processorOptions: WorkletProcessorOptions }) {
+    super(options);
+    this.options = options.processorOptions;
+    this.target = this.options.prebuffer;
+    this.resample = createResampler(this.options.format.sampleRate, sampleRate);
+    this.ring = Array.from(
+      { length: this.options.format.channels },
+      () => new Float32Array(Math.round(INITIAL_CAPACITY_SECONDS * sampleRate))
+    );
+    this.statsEvery = Math.max(1, Math.round((STATS_INTERVAL_SECONDS * sampleRate) / 128));
+    this.port.onmessage = (event: MessageEvent<ProcessorCommand>) => this.handle(event.data);
+  }
+
+  private get capacity(): number {
+    return this.ring[0].length;
+  }
+
+  private get available(): number {
+    return this.writeIndex - this.readIndex;
+  }
+
+  private send(event: ProcessorEvent) {
+    this.port.postMessage(event);
+  }
+
+  private handle(command: ProcessorCommand) {
+    switch (command.type) {
+      case 'push':
+        this.write(this.resample(decodePcm(new Uint8Array(command.data), this.options.format)));
+        break;
+      case 'end':
+        this.ended = true;
+        break;
+      case 'stop':
+        this.readIndex = this.writeIndex;
+        this.buffering = true;
+        this.ended = false;
+        this.drainedSent = false;
+        break;
+      case 'close':
+        this.closed = true;
+        break;
+    }
+  }
+
+  private write(channels: Float32Array[]) {
+    const frames = channels[0]?.length ?? 0;
+    if (frames === 0) return;
+
+    // Generation usually outruns playback: double the ring instead of dropping audio
+    if (this.available + frames > this.capacity) {
+      let capacity = this.capacity * 2;
+      while (this.available + frames > capacity) capacity *= 2;
+      this.ring = this.ring.map(old => {
+        const grown = new Float32Array(capacity);
+        for (let i = 0; i < this.available; i++) {
+          grown[i] = old[(this.readIndex + i) % old.length];
+        }
+        return grown;
+      });
+      this.writeIndex = this.available;
+      this.readIndex = 0;
+    }
+
+    for (let ch = 0; ch < this.ring.length; ch++) {
+      const ring = this.ring[ch];
+      const data = channels[ch];
+      for (let i = 0; i < frames; i++) {
+        ring[(this.writeIndex + i) % ring.length] = data[i];
+      }
+    }
+    this.writeIndex += frames;
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    if (this.closed) return false;
+    const output = outputs[0];
+    const blockSize = output[0].length;
+
+    if (++this.blocks % this.statsEvery === 0) {
+      this.send({
+        type: 'stats',
+        bufferedSeconds: this.available / sampleRate,
+        underruns: this.underruns,
+        prebufferSeconds: this.target
+      });
+    }
+
+    if (this.buffering) {
+      const ready = this.available >= this.target * sampleRate || (this.ended && this.available > 0);
+      if (!ready) {
+        this.reportDrained();
+        return true; // Outputs are already silent
+      }
+      this.buffering = false;
+      this.fadeInRemaining = this.fadeFrames;
+      if (!this.started) {
+        this.started = true;
+        this.send({ type: 'started' });
+      }
+    }
+
+    // About to run dry with more audio still coming: fade out what is left and rebuffer
+    const runningDry = !this.ended && this.available < blockSize + this.fadeFrames;
+    const frames = Math.min(blockSize, this.available);
+    const fadeOut = runningDry ? Math.min(this.fadeFrames, frames) : 0;
+
+    for (let i = 0; i < frames; i++) {
+      let gain = 1;
+      if (this.fadeInRemaining > 0) {
+        gain = 1 - this.fadeInRemaining / this.fadeFrames;
+        this.fadeInRemaining--;
+      }
+      if (i >= frames - fadeOut) {
+        gain *= (frames - i) / fadeOut;
+      }
+      const index = (this.readIndex + i) % this.capacity;
+      for (let ch = 0; ch < output.length; ch++) {
+        output[ch][i] = this.ring[Math.min(ch, this.ring.length - 1)][index] * gain;
+      }
+    }
+    this.readIndex += frames;
+
+    if (runningDry) {
+      this.underruns++;
+      this.target = Math.min(this.options.maxPrebuffer, this.target * PREBUFFER_GROWTH);
+      this.buffering = true;
+    }
+    this.reportDrained();
+    return true;
+  }
+
+  private reportDrained() {
+    if (this.ended && this.available === 0 && !this.drainedSent) {
+      this.drainedSent = true;
+      this.send({ type: 'drained' });
+    }
+  }
+}
+
+registerProcessor('pcm-player', PcmPlayerProcessor);
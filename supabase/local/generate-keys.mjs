@@ -0,0 +1,22 @@
+// Print anon and service_role keys for the local stand-in (or any HS256 JWT secret).
+// Usage: SUPABASE_JWT_SECRET=... node supabase/local/generate-keys.mjs
+import crypto from 'crypto';
+
+const secret = process.env.SUPABASE_JWT_SECRET || 'local-dev-jwt-secret-change-me-at-least-32-chars';
+const tenYears = 10 * 365 * 24 * 60 * 60;
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const sign = (payload) => {
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  const signature = crypto.createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+};
+
+const issuedAt = Math.floor(Date.now() / 1000);
+const key = (role) => sign({ iss: 'supabase-local', role, iat: issuedAt, exp: issuedAt + tenYears });
+
+console.log(`VITE_SUPABASE_URL=http://localhost:8000`);
+console.log(`VITE_SUPABASE_ANON_KEY=${key('anon')}`);
+console.log(`SUPABASE_SERVICE_KEY=${key('service_role')}`);
+console.log(`SUPABASE_JWT_SECRET=${secret}`);
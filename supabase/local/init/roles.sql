@@ -0,0 +1,4 @@
+-- The supabase/postgres image creates these roles without passwords;
+-- GoTrue and PostgREST log in with them in the local stand-in.
+alter user authenticator with password 'postgres';
+alter user supabase_auth_admin with password 'postgres';
@@ -0,0 +1,17 @@
+-- Voice catalog per TTS service (ids match services.json)
+alter table public.voices
+  add column if not exists service_id text not null default 'echotts';
+
+create index if not exists voices_service_status_idx on public.voices(service_id, status);
+
+-- Recreate the admin view so it picks up the new column (v.* is expanded at creation time)
+drop view if exists public.voices_with_users;
+create view public.voices_with_users as
+select v.*, u.email as owner_email, a.email as approver_email
+from public.voices v
+left join auth.users u on u.id = v.owner_user_id
+left join auth.users a on a.id = v.approved_by_user_id;
+
+-- The view joins auth.users and runs with its owner's rights: only the server reads it
+revoke select on public.voices_with_users from public, anon, authenticated;
+grant select on public.voices_with_users to service_role;
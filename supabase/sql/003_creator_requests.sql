@@ -0,0 +1,109 @@
+-- Creator access workflow: request, approve, deny (all atomic)
+
+-- Reviewer notes are kept apart from the requester's own notes
+alter table public.voice_requests
+  add column if not exists review_notes text;
+
+-- At most one open request per user
+create unique index if not exists voice_requests_one_pending_idx
+  on public.voice_requests(user_id) where status = 'pending';
+
+-- Request creator access: open request + pending role in one transaction
+create or replace function request_creator_access(requester_id uuid, request_notes text default null)
+returns public.voice_requests as $$
+declare
+  existing_role text;
+  new_request public.voice_requests;
+begin
+  select role into existing_role from public.user_roles where user_id = requester_id;
+
+  if existing_role in ('voice_creator', 'admin') then
+    raise exception 'User already has creator access';
+  end if;
+
+  insert into public.voice_requests (user_id, notes)
+  values (requester_id, request_notes)
+  returning * into new_request;
+
+  insert into public.user_roles (user_id, role)
+  values (requester_id, 'voice_creator_pending')
+  on conflict (user_id) do update
+  set role = 'voice_creator_pending',
+      updated_at = now();
+
+  return new_request;
+end;
+$$ language plpgsql security definer;
+
+-- Approval now records reviewer notes and only applies to pending requests
+drop function if exists approve_creator_request(uuid, uuid);
+
+create or replace function approve_creator_request(request_id uuid, admin_id uuid, review_notes text default null)
+returns void as $$
+declare
+  req_user_id uuid;
+begin
+  update public.voice_requests
+  set status = 'approved',
+      reviewed_by = admin_id,
+      reviewed_at = now(),
+      review_notes = approve_creator_request.review_notes
+  where id = request_id
+    and status = 'pending'
+  returning user_id into req_user_id;
+
+  if not found then
+    raise exception 'Request not found or already reviewed';
+  end if;
+
+  insert into public.user_roles (user_id, role)
+  values (req_user_id, 'voice_creator')
+  on conflict (user_id) do update
+  set role = 'voice_creator',
+      updated_at = now();
+end;
+$$ language plpgsql security definer;
+
+-- Denial closes the request and drops the pending role (back to a regular user)
+create or replace function deny_creator_request(request_id uuid, admin_id uuid, review_notes text default null)
+returns void as $$
+declare
+  req_user_id uuid;
+begin
+  update public.voice_requests
+  set status = 'denied',
+      reviewed_by = admin_id,
+      reviewed_at = now(),
+      review_notes = deny_creator_request.review_notes
+  where id = request_id
+    and status = 'pending'
+  returning user_id into req_user_id;
+
+  if not found then
+    raise exception 'Request not found or already reviewed';
+  end if;
+
+  delete from public.user_roles
+  where user_id = req_user_id
+    and role = 'voice_creator_pending';
+end;
+$$ language plpgsql security definer;
+
+-- These take the acting user as a parameter, so only the server (service_role) may call them
+revoke execute on function request_creator_access(uuid, text) from public, anon, authenticated;
+revoke execute on function approve_creator_request(uuid, uuid, text) from public, anon, authenticated;
+revoke execute on function deny_creator_request(uuid, uuid, text) from public, anon, authenticated;
+grant execute on function request_creator_access(uuid, text) to service_role;
+grant execute on function approve_creator_request(uuid, uuid, text) to service_role;
+grant execute on function deny_creator_request(uuid, uuid, text) to service_role;
+
+-- Requests with requester/reviewer emails for the admin panel
+create or replace view public.voice_requests_with_users as
+select r.*, u.email as requester_email, a.email as reviewer_email
+from public.voice_requests r
+left join auth.users u on u.id = r.user_id
+left join auth.users a on a.id = r.reviewed_by;
+
+-- The view joins auth.users and runs with its owner's rights: keep it off the public API
+revoke select on public.voice_requests_with_users from public, anon, authenticated;
+grant select on public.voice_requests_with_users to service_role;
@@ -0,0 +1,22 @@
+-- Reference voice uploads: only pending and approved voices count towards the quota,
+-- so a denied upload does not lock its owner out. The message is matched by server.js.
+create or replace function check_voice_quota()
+returns trigger as $$
+declare
+  voice_count int;
+begin
+  select count(*) into voice_count
+  from public.voices
+  where owner_user_id = new.owner_user_id
+    and status in ('pending', 'approved');
+
+  if voice_count >= 20 then
+    raise exception 'Voice quota exceeded. Maximum 20 voices per user.';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+-- Admin review queue
+create index if not exists voices_pending_created_idx
+  on public.voices(created_at) where status = 'pending';
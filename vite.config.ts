@@ -7,5 +7,12 @@ export default defineConfig({
   server: {
     host: true, // Needed for Docker
     port: 5173,
+    // Forward API and WebSocket proxies to `npm start` so dev can run with VITE_TTS_PROXY_MODE=server
+    proxy: {
+      '/api': {
+        target: 'http://localhost:4173',
+        ws: true,
+      },
+    },
   }
 })